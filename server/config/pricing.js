@@ -0,0 +1,39 @@
+/**
+ * Model price table
+ *
+ * Prices are USD per million tokens, keyed by the model names used in the
+ * provider registry (upstream ids work too). Groq and DeepSeek list their
+ * pay-as-you-go prices; free-tier usage is still counted at these rates so
+ * the totals show what a conversation would cost. Providers listed in
+ * freeProviders (local backends, mock models) always cost nothing.
+ *
+ * Update these when providers change their pricing.
+ */
+export const modelPricing = {
+  // Groq
+  'groq-llama-8b': { input: 0.05, output: 0.08 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'groq-llama-70b': { input: 0.59, output: 0.79 },
+  'llama-3.1-70b-versatile': { input: 0.59, output: 0.79 },
+  'groq-mixtral': { input: 0.24, output: 0.24 },
+  'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  'groq-gemma': { input: 0.2, output: 0.2 },
+  'gemma2-9b-it': { input: 0.2, output: 0.2 },
+
+  // DeepSeek
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+
+  // OpenAI
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4': { input: 30, output: 60 },
+
+  // Anthropic
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+};
+
+export const freeProviders = ['local', 'mock'];
@@ -0,0 +1,194 @@
+/**
+ * Provider registry configuration
+ *
+ * Each entry describes one LLM provider: where it lives, which env var holds
+ * its API key, which model names route to it and which adapter talks to it.
+ * Adding a provider means adding an entry here - routes and the LLM service
+ * resolve everything through server/services/providerRegistry.js.
+ *
+ * Entries are matched in order, so more specific providers come first.
+ * Optional `limits` ({ rpm, concurrency }) throttle requests to a provider;
+ * see server/services/rateLimiter.js for the env overrides.
+ * Env vars are read lazily by the registry (dotenv loads after imports).
+ */
+export const providers = [
+  {
+    id: 'local',
+    name: 'Local',
+    adapter: 'openai',
+    // Comma-separated name=baseURL pairs, e.g.
+    // ollama=http://localhost:11434/v1,vllm=http://localhost:8000/v1
+    backendsEnv: 'LOCAL_LLM_BACKENDS',
+    apiKeyEnv: 'LOCAL_LLM_API_KEY',
+    apiKeyOptional: true,
+    keyHelp: 'Check that the backend is running and listed in LOCAL_LLM_BACKENDS',
+    // Model names look like local:<backend>/<model>, e.g. local:ollama/llama3.1:8b
+    match: {
+      prefixes: ['local:'],
+    },
+    // Models are discovered from each backend's /models endpoint
+    discover: true,
+    capabilities: {
+      streaming: true,
+      maxContext: 8192,
+    },
+    // A single local GPU serves one request at a time well
+    limits: {
+      concurrency: 1,
+    },
+    models: [],
+  },
+  {
+    id: 'mock',
+    name: 'Mock',
+    adapter: 'mock',
+    keyHelp: 'Mock models run offline and need no API key',
+    // Deterministic offline models for development and end-to-end tests.
+    // Tuned with MOCK_LLM_SEED, MOCK_LLM_CHUNK_SIZE, MOCK_LLM_LATENCY_MS
+    // and MOCK_LLM_SCRIPT (path to a JSON array of replies).
+    match: {
+      prefixes: ['mock-'],
+    },
+    capabilities: {
+      streaming: true,
+      maxContext: 32768,
+    },
+    models: [
+      { id: 'mock-random', label: 'Mock - Seeded random replies' },
+      { id: 'mock-echo', label: 'Mock - Echo last message' },
+      { id: 'mock-scripted', label: 'Mock - Scripted replies' },
+      { id: 'mock-judge', label: 'Mock - Judge (JSON scores and verdicts)' },
+      { id: 'mock-error-429', label: 'Mock - Rate limited (429)' },
+      { id: 'mock-error-401', label: 'Mock - Invalid API key (401)' },
+      { id: 'mock-error-500', label: 'Mock - Server error (500)' },
+      { id: 'mock-empty', label: 'Mock - Empty response' },
+      { id: 'mock-midstream-error', label: 'Mock - Fails mid-stream' },
+    ],
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    adapter: 'anthropic',
+    baseURLEnv: 'ANTHROPIC_BASE_URL',
+    defaultBaseURL: 'https://api.anthropic.com',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    keyHelp: 'Get your API key at: https://console.anthropic.com/settings/keys',
+    match: {
+      prefixes: ['claude'],
+    },
+    capabilities: {
+      streaming: true,
+      maxContext: 200000,
+    },
+    limits: {
+      rpm: 50,
+      concurrency: 4,
+    },
+    models: [
+      { id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5 (Anthropic)' },
+      { id: 'claude-haiku-4-5', label: 'Claude Haiku 4.5 (Anthropic)' },
+      { id: 'claude-opus-4-1', label: 'Claude Opus 4.1 (Anthropic)' },
+      { id: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku (Anthropic)' },
+    ],
+  },
+  {
+    id: 'groq',
+    name: 'Groq',
+    adapter: 'openai',
+    baseURLEnv: 'GROQ_BASE_URL',
+    defaultBaseURL: 'https://api.groq.com/openai/v1',
+    apiKeyEnv: 'GROQ_API_KEY',
+    keyHelp: 'Get your free API key at: https://console.groq.com/keys',
+    match: {
+      prefixes: ['groq-'],
+      includes: ['llama', 'mixtral'],
+    },
+    capabilities: {
+      streaming: true,
+      maxContext: 8192,
+    },
+    // Free tier allowance; raise with GROQ_RATE_LIMIT_RPM on paid plans
+    limits: {
+      rpm: 30,
+      concurrency: 4,
+    },
+    models: [
+      {
+        id: 'groq-llama-8b',
+        label: 'Groq Llama 3.1 8B - FREE ⭐⭐⭐',
+        upstream: 'llama-3.1-8b-instant',
+        aliases: ['llama-3.1-8b'],
+        maxContext: 131072,
+      },
+      {
+        id: 'groq-mixtral',
+        label: 'Groq Mixtral 8x7B - FREE ⭐⭐',
+        upstream: 'mixtral-8x7b-32768',
+        aliases: ['mixtral'],
+        maxContext: 32768,
+      },
+      {
+        id: 'groq-llama-70b',
+        label: 'Groq Llama 3.1 70B - FREE ⭐',
+        upstream: 'llama-3.1-70b-versatile',
+        aliases: ['llama-3.1-70b'],
+        maxContext: 131072,
+      },
+      {
+        id: 'groq-gemma',
+        label: 'Groq Gemma 2 9B - FREE',
+        upstream: 'gemma2-9b-it',
+        aliases: ['gemma'],
+        maxContext: 8192,
+      },
+    ],
+  },
+  {
+    id: 'deepseek',
+    name: 'DeepSeek',
+    adapter: 'openai',
+    baseURLEnv: 'DEEPSEEK_BASE_URL',
+    defaultBaseURL: 'https://api.deepseek.com',
+    apiKeyEnv: 'DEEPSEEK_API_KEY',
+    keyHelp: 'Get your API key at: https://platform.deepseek.com/usage',
+    match: {
+      prefixes: ['deepseek'],
+    },
+    // DeepSeek only exposes its standard chat model, whatever name was asked for
+    defaultUpstream: 'deepseek-chat',
+    capabilities: {
+      streaming: true,
+      maxContext: 65536,
+    },
+    models: [
+      {
+        id: 'deepseek-chat',
+        label: 'DeepSeek Chat - Free Tier Available ⭐',
+        upstream: 'deepseek-chat',
+      },
+    ],
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    adapter: 'langchain',
+    baseURLEnv: 'OPENAI_BASE_URL',
+    defaultBaseURL: 'https://api.openai.com/v1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    keyHelp: 'Set OPENAI_API_KEY in your .env file',
+    // Anything not claimed by another provider is sent to OpenAI
+    match: {
+      fallback: true,
+    },
+    capabilities: {
+      streaming: true,
+      maxContext: 16385,
+    },
+    models: [
+      { id: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo (OpenAI)' },
+      { id: 'gpt-4o', label: 'GPT-4o (OpenAI)', maxContext: 128000 },
+      { id: 'gpt-4o-mini', label: 'GPT-4o Mini (OpenAI)', maxContext: 128000 },
+      { id: 'gpt-4', label: 'GPT-4 (OpenAI) - Requires Access', maxContext: 8192 },
+    ],
+  },
+];
@@ -2,6 +2,10 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { llmRouter } from './routes/llm.js';
+import { runsRouter } from './routes/runs.js';
+import { conversationsRouter } from './routes/conversations.js';
+import { getLimiterStats } from './services/rateLimiter.js';
+import { ErrorCodes } from './services/errors.js';
 
 dotenv.config();
 
@@ -9,22 +13,29 @@ const app = express();
 const PORT = process.env.PORT || 3002;
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// The front end runs on another origin; let it read export file names
+app.use(cors({ exposedHeaders: ['Content-Disposition'] }));
+// Saved conversations with long transcripts can be large
+app.use(express.json({ limit: '10mb' }));
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', message: 'Dual LLM Chat API is running' });
+  res.json({ status: 'ok', message: 'Dual LLM Chat API is running', rateLimits: getLimiterStats() });
 });
 
 // Routes
 app.use('/api/llm', llmRouter);
+app.use('/api/runs', runsRouter);
+app.use('/api/conversations', conversationsRouter);
 
 // Error handling middleware
 app.use((err, req, res, next) => {
   console.error('Error:', err);
-  res.status(err.status || 500).json({
+  // Body parser failures (malformed JSON, oversized bodies) are client errors
+  const status = err.status || 500;
+  res.status(status).json({
     error: err.message || 'Internal server error',
+    code: status < 500 ? ErrorCodes.VALIDATION_ERROR : ErrorCodes.INTERNAL_ERROR,
   });
 });
 
@@ -0,0 +1,90 @@
+import express from 'express';
+import { handle } from './handle.js';
+import { parseCreateConversation, parseExportQuery, parseUpdateConversation } from '../schemas/run.js';
+import { exportConversation } from '../services/transcriptExport.js';
+import {
+  createConversation,
+  getRun,
+  getRecord,
+  listConversations,
+  updateConversation,
+  deleteRun,
+} from '../services/orchestrator.js';
+
+/**
+ * Saved conversations
+ *
+ * Every run is a conversation, saved as it goes, so these routes see the
+ * same ids as /api/runs. A conversation is the stored form of a run: its
+ * title, topic, participants with their model settings, the other run
+ * settings, the turn state and every message with its metadata.
+ */
+
+const router = express.Router();
+
+/**
+ * POST /api/conversations
+ * Saves a conversation with its transcript. Takes the body of POST /api/runs
+ * plus messages: { speaker, name, content, moderator?, createdAt?, model?,
+ * usage?, cost?, ... }[] in order, where speaker is a participant id (null
+ * for moderator messages). The conversation is idle, ready to continue.
+ */
+router.post('/', handle('POST /api/conversations', (req, res) => {
+  const run = createConversation(parseCreateConversation(req.body));
+  res.status(201).json(getRecord(run));
+}));
+
+/**
+ * GET /api/conversations
+ * Lists every saved conversation without its transcript, most recently
+ * updated first; each has a messageCount
+ */
+router.get('/', handle('GET /api/conversations', async (req, res) => {
+  res.json({ conversations: await listConversations() });
+}));
+
+/**
+ * GET /api/conversations/:id
+ * Returns a conversation with its transcript
+ */
+router.get('/:id', handle('GET /api/conversations/:id', async (req, res) => {
+  res.json(getRecord(await getRun(req.params.id)));
+}));
+
+/**
+ * GET /api/conversations/:id/export?format=markdown|json|html
+ * Downloads the transcript as Markdown with a heading per speaker, as the
+ * full JSON record, or as a standalone HTML page (markdown by default)
+ */
+router.get('/:id/export', handle('GET /api/conversations/:id/export', async (req, res) => {
+  const { format } = parseExportQuery(req.query);
+  const run = await getRun(req.params.id);
+  const { body, contentType, fileName } = exportConversation(getRecord(run), format);
+  res.attachment(fileName);
+  res.set('Content-Type', contentType);
+  res.send(body);
+}));
+
+/**
+ * PATCH /api/conversations/:id
+ * Updates the title, topic or settings, like PATCH /api/runs/:id, and with
+ * messages (as for POST) replaces the transcript while the conversation is
+ * paused or idle
+ */
+router.patch('/:id', handle('PATCH /api/conversations/:id', async (req, res) => {
+  const run = await getRun(req.params.id);
+  updateConversation(run, parseUpdateConversation(req.body));
+  res.json(getRecord(run));
+}));
+
+/**
+ * DELETE /api/conversations/:id
+ * Stops the conversation if it is playing and deletes it for good. Its
+ * branches are kept.
+ */
+router.delete('/:id', handle('DELETE /api/conversations/:id', async (req, res) => {
+  await deleteRun(req.params.id);
+  res.status(204).end();
+}));
+
+export { router as conversationsRouter };
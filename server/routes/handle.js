@@ -0,0 +1,18 @@
+import { ErrorCodes, getHttpStatus, toErrorBody } from '../services/errors.js';
+
+/**
+ * Wraps a handler so thrown errors become { error, code } responses
+ */
+export function handle(routeName, handler) {
+  return async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      const body = toErrorBody(error);
+      if (body.code === ErrorCodes.INTERNAL_ERROR) {
+        console.error(`Error in ${routeName}:`, error);
+      }
+      res.status(getHttpStatus(body.code)).json(body);
+    }
+  };
+}
@@ -1,91 +1,116 @@
 import express from 'express';
 import { generateResponse, generateStreamingResponse } from '../services/llmService.js';
+import { resolveModel, getMissingKeyMessage, listModels } from '../services/providerRegistry.js';
+import { acquireClientSlot } from '../services/rateLimiter.js';
+import { LLMError, ErrorCodes, getHttpStatus, toErrorBody } from '../services/errors.js';
+import { parseLLMRequest } from '../schemas/llmRequest.js';
 
 const router = express.Router();
 
+/**
+ * Throws PROVIDER_KEY_MISSING when neither the requested model nor any of
+ * its fallbacks has a configured provider
+ */
+function assertUsableModels(model, fallbackModels) {
+  const messages = [model, ...fallbackModels].map(
+    (candidate) => getMissingKeyMessage(resolveModel(candidate).provider)
+  );
+  if (messages.every(Boolean)) {
+    throw new LLMError(ErrorCodes.PROVIDER_KEY_MISSING, messages[0]);
+  }
+}
+
+/**
+ * Identifies the caller for per-client limits. The browser sends a stable
+ * X-Client-Id so all of its tabs share one budget; otherwise the IP is used.
+ */
+function getClientId(req) {
+  return req.get('X-Client-Id') || req.ip;
+}
+
 /**
  * POST /api/llm/generate
  * Generates a response from an LLM
  * 
- * Body:
+ * Body (validated by server/schemas/llmRequest.js):
  * {
  *   model: string,
- *   temperature: number,
- *   maxTokens: number,
- *   systemPrompt: string,
- *   conversationHistory: Array<{role: string, content: string}>
+ *   temperature?: number,        // 0-2, default 0.7
+ *   maxTokens?: number,          // 1-32768, default 200
+ *   systemPrompt?: string,
+ *   conversationHistory: Array<{role: string, content: string}>,
+ *   fallbackModels?: string[]   // tried in order if the model keeps failing
  * }
+ *
+ * Errors respond with { error, code, details? }; see services/errors.js.
  */
 router.post('/generate', async (req, res) => {
-  try {
-    const { model, temperature, maxTokens, systemPrompt, conversationHistory } = req.body;
-
-    // Validation
-    if (!model) {
-      return res.status(400).json({ error: 'Model is required' });
+  // Stop waiting in the queue if the client goes away
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
     }
+  });
+  let releaseClientSlot;
 
-    if (!conversationHistory || !Array.isArray(conversationHistory)) {
-      return res.status(400).json({ error: 'Conversation history must be an array' });
-    }
+  try {
+    const { model, temperature, maxTokens, systemPrompt, conversationHistory, fallbackModels } = parseLLMRequest(req.body);
 
     // Check API keys
-    const isDeepSeek = model.toLowerCase().startsWith('deepseek');
-    const isGroq = model.toLowerCase().startsWith('groq-') || model.toLowerCase().includes('llama') || model.toLowerCase().includes('mixtral');
-    let apiKey;
-    let serviceName;
-    
-    if (isGroq) {
-      apiKey = process.env.GROQ_API_KEY;
-      serviceName = 'Groq';
-    } else if (isDeepSeek) {
-      apiKey = process.env.DEEPSEEK_API_KEY;
-      serviceName = 'DeepSeek';
-    } else {
-      apiKey = process.env.OPENAI_API_KEY;
-      serviceName = 'OpenAI';
-    }
-    
-    if (!apiKey) {
-      return res.status(500).json({ 
-        error: `API key not configured for ${serviceName}. ` +
-          (isGroq ? 'Get your free API key at: https://console.groq.com/keys' : 
-           isDeepSeek ? 'Get your API key at: https://platform.deepseek.com/usage' : 
-           'Set OPENAI_API_KEY in your .env file')
-      });
-    }
+    assertUsableModels(model, fallbackModels);
+
+    releaseClientSlot = await acquireClientSlot(getClientId(req), { signal: abortController.signal });
 
     // Generate response
     const result = await generateResponse(
       model,
-      temperature || 0.7,
-      maxTokens || 200,
-      systemPrompt || '',
-      conversationHistory
+      temperature,
+      maxTokens,
+      systemPrompt,
+      conversationHistory,
+      { signal: abortController.signal, fallbackModels }
     );
 
+    if (abortController.signal.aborted) {
+      return;
+    }
+
     if (!result.success) {
-      return res.status(500).json({ 
+      const code = result.code || ErrorCodes.INTERNAL_ERROR;
+      return res.status(getHttpStatus(code)).json({
         error: result.error || 'Failed to generate response',
-        content: result.content 
+        code,
+        content: result.content,
       });
     }
 
     res.json({
       content: result.content,
+      model: result.model,
+      usage: result.usage,
+      cost: result.cost,
       success: true,
     });
   } catch (error) {
+    if (abortController.signal.aborted) {
+      return;
+    }
     console.error('Error in /api/llm/generate:', error);
-    res.status(500).json({
-      error: error.message || 'Internal server error',
-    });
+    const body = toErrorBody(error);
+    res.status(getHttpStatus(body.code)).json(body);
+  } finally {
+    releaseClientSlot?.();
   }
 });
 
 /**
  * POST /api/llm/stream
  * Generates a streaming response from an LLM
+ * Body is the same as /generate; the final event carries the model used.
+ * While the request waits for a rate limit slot it receives
+ * { queued: true, position, waitingFor } events, then { queued: false }.
+ * Errors arrive as { error, code, details?, done: true }.
  */
 router.post('/stream', async (req, res) => {
   // Set up Server-Sent Events headers first
@@ -94,70 +119,82 @@ router.post('/stream', async (req, res) => {
   res.setHeader('Connection', 'keep-alive');
   res.setHeader('Access-Control-Allow-Origin', '*');
 
-  try {
-    const { model, temperature, maxTokens, systemPrompt, conversationHistory } = req.body;
-
-    // Validation - send errors via SSE
-    if (!model) {
-      res.write(`data: ${JSON.stringify({ error: 'Model is required', done: true })}\n\n`);
-      res.end();
-      return;
+  // Abort the upstream provider stream if the client goes away
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('[LLM Route] Client disconnected, aborting stream');
+      abortController.abort();
     }
+  });
+  let releaseClientSlot;
 
-    if (!conversationHistory || !Array.isArray(conversationHistory)) {
-      res.write(`data: ${JSON.stringify({ error: 'Conversation history must be an array', done: true })}\n\n`);
-      res.end();
-      return;
-    }
+  const onQueued = ({ position, waitingFor }) => {
+    const event = position > 0
+      ? { queued: true, position, waitingFor, done: false }
+      : { queued: false, done: false };
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  try {
+    // Validation and key errors are sent via SSE like any other failure
+    const { model, temperature, maxTokens, systemPrompt, conversationHistory, fallbackModels } = parseLLMRequest(req.body);
 
     // Check API keys
-    const isDeepSeek = model.toLowerCase().startsWith('deepseek');
-    const isGroq = model.toLowerCase().startsWith('groq-') || model.toLowerCase().includes('llama') || model.toLowerCase().includes('mixtral');
-    let apiKey;
-    let serviceName;
-    
-    if (isGroq) {
-      apiKey = process.env.GROQ_API_KEY;
-      serviceName = 'Groq';
-    } else if (isDeepSeek) {
-      apiKey = process.env.DEEPSEEK_API_KEY;
-      serviceName = 'DeepSeek';
-    } else {
-      apiKey = process.env.OPENAI_API_KEY;
-      serviceName = 'OpenAI';
-    }
-    
-    if (!apiKey) {
-      res.write(`data: ${JSON.stringify({ 
-        error: `API key not configured for ${serviceName}. ` +
-          (isGroq ? 'Get your free API key at: https://console.groq.com/keys' : 
-           isDeepSeek ? 'Get your API key at: https://platform.deepseek.com/usage' : 
-           'Set OPENAI_API_KEY in your .env file'),
-        done: true 
-      })}\n\n`);
-      res.end();
-      return;
-    }
+    assertUsableModels(model, fallbackModels);
+
+    releaseClientSlot = await acquireClientSlot(getClientId(req), {
+      signal: abortController.signal,
+      onQueued,
+    });
 
     // Generate streaming response
-    await generateStreamingResponse(
+    const result = await generateStreamingResponse(
       model,
-      temperature || 0.7,
-      maxTokens || 200,
-      systemPrompt || '',
+      temperature,
+      maxTokens,
+      systemPrompt,
       conversationHistory,
       (chunk) => {
         res.write(`data: ${JSON.stringify({ content: chunk, done: false })}\n\n`);
-      }
+      },
+      { signal: abortController.signal, fallbackModels, onQueued }
     );
 
-    // Send completion signal
-    res.write(`data: ${JSON.stringify({ content: '', done: true })}\n\n`);
+    // Send completion signal with the model that actually replied and its usage
+    res.write(`data: ${JSON.stringify({
+      content: '',
+      done: true,
+      model: result.model,
+      usage: result.usage,
+      cost: result.cost,
+    })}\n\n`);
     res.end();
   } catch (error) {
+    // Nobody is listening any more, so there is nothing to report
+    if (abortController.signal.aborted) {
+      return;
+    }
     console.error('Error in /api/llm/stream:', error);
-    res.write(`data: ${JSON.stringify({ error: error.message || 'Internal server error', done: true })}\n\n`);
+    res.write(`data: ${JSON.stringify({ ...toErrorBody(error), done: true })}\n\n`);
     res.end();
+  } finally {
+    releaseClientSlot?.();
+  }
+});
+
+/**
+ * GET /api/llm/models
+ * Lists the models each provider offers, grouped by provider.
+ * Local OpenAI-compatible backends are asked for their models on every call.
+ */
+router.get('/models', async (req, res) => {
+  try {
+    const providers = await listModels();
+    res.json({ providers });
+  } catch (error) {
+    console.error('Error in /api/llm/models:', error);
+    res.status(500).json(toErrorBody(error, ErrorCodes.INTERNAL_ERROR));
   }
 });
 
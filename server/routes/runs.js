@@ -0,0 +1,261 @@
+import express from 'express';
+import { handle } from './handle.js';
+import {
+  parseCreateRun,
+  parseUpdateRun,
+  parsePlayTurn,
+  parseModeratorMessage,
+  parseForkRun,
+  parseEditMessage,
+  parseRegenerateMessage,
+  parseSelectVersion,
+} from '../schemas/run.js';
+import {
+  createRun,
+  getRun,
+  getSnapshot,
+  listRuns,
+  startRun,
+  pauseRun,
+  stopRun,
+  playTurn,
+  updateRun,
+  addModeratorMessage,
+  editMessage,
+  deleteMessagesFrom,
+  regenerateMessage,
+  selectVersion,
+  requestVerdict,
+  forkRun,
+  getBranches,
+  subscribe,
+} from '../services/orchestrator.js';
+
+const router = express.Router();
+
+/**
+ * POST /api/runs
+ * Creates a conversation run (it does not start playing yet)
+ *
+ * Body:
+ * {
+ *   title?: string,       // shown in the conversation history
+ *   topic?: string,
+ *   participants: Participant[],             // 2 to 8
+ *   turnOrder?: 'round-robin' | 'custom',    // default round-robin
+ *   speakingOrder?: string[],                // participant ids, for custom
+ *   startingSpeaker?: string,                // participant id
+ *   autoPlay?: boolean,   // play turns back to back once started (default true)
+ *   delayMs?: number,     // pause between turns (default 1000)
+ *   maxTurns?: number,    // auto-play stops after this many turns (default 20)
+ *   stopConditions?: {    // more rules that end auto-play, all off by default
+ *     maxTokens?: number | null,  // total tokens of the participants' replies
+ *     stopPhrase?: string,        // e.g. "[END]" appearing in a reply
+ *     repetition?: number | null, // share of repeated 3-grams, 0.1 to 1
+ *     agreement?: boolean         // everyone agrees to conclude
+ *   },
+ *   judge?: Judge | null, // scores turns and gives a verdict (default none)
+ *   summarizer?: Summarizer | null // summary memory (default none)
+ * }
+ * Participant has an id, a display name and a hex colour, plus the model
+ * settings of an /api/llm/generate request: model, temperature, maxTokens,
+ * systemPrompt (its persona) and fallbackModels. Judge has model,
+ * temperature, maxTokens, fallbackModels, a rubric prompt and the criteria
+ * it scores (default relevance, persuasiveness and factuality). Summarizer
+ * has model, temperature, maxTokens, fallbackModels and recentMessages, the
+ * latest messages kept word for word (default 12).
+ */
+router.post('/', handle('POST /api/runs', (req, res) => {
+  const run = createRun(parseCreateRun(req.body));
+  res.status(201).json(getSnapshot(run));
+}));
+
+/**
+ * GET /api/runs
+ * Lists the runs in memory without their transcripts; every saved
+ * conversation is listed by GET /api/conversations
+ */
+router.get('/', handle('GET /api/runs', (req, res) => {
+  res.json({ runs: listRuns() });
+}));
+
+/**
+ * GET /api/runs/:id
+ * Returns a run with its transcript
+ */
+router.get('/:id', handle('GET /api/runs/:id', async (req, res) => {
+  res.json(getSnapshot(await getRun(req.params.id)));
+}));
+
+/**
+ * PATCH /api/runs/:id
+ * Updates the title, topic, participants (the full list), turnOrder,
+ * speakingOrder, autoPlay, delayMs, maxTurns, stopConditions (the whole
+ * object), judge or summarizer (null removes either). Applies from the next
+ * turn.
+ */
+router.patch('/:id', handle('PATCH /api/runs/:id', async (req, res) => {
+  const run = await getRun(req.params.id);
+  updateRun(run, parseUpdateRun(req.body));
+  res.json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/start
+ * Starts or resumes the run from the participant whose turn it is
+ */
+router.post('/:id/start', handle('POST /api/runs/:id/start', async (req, res) => {
+  const run = await getRun(req.params.id);
+  startRun(run);
+  res.json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/pause
+ * Pauses the run; a reply in progress is kept and marked interrupted
+ */
+router.post('/:id/pause', handle('POST /api/runs/:id/pause', async (req, res) => {
+  const run = await getRun(req.params.id);
+  pauseRun(run);
+  res.json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/stop
+ * Ends the run for good
+ */
+router.post('/:id/stop', handle('POST /api/runs/:id/stop', async (req, res) => {
+  const run = await getRun(req.params.id);
+  stopRun(run);
+  res.json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/turns
+ * Plays one turn ({ speaker?: participant id }, default: whoever is next).
+ * Responds straight away with 202; the reply arrives on the event stream.
+ */
+router.post('/:id/turns', handle('POST /api/runs/:id/turns', async (req, res) => {
+  const run = await getRun(req.params.id);
+  const { speaker } = parsePlayTurn(req.body);
+  playTurn(run, speaker);
+  res.status(202).json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/messages
+ * Adds a moderator message ({ content }) that every participant sees from
+ * their next turn. Responds with the message.
+ */
+router.post('/:id/messages', handle('POST /api/runs/:id/messages', async (req, res) => {
+  const run = await getRun(req.params.id);
+  const { content } = parseModeratorMessage(req.body);
+  res.status(201).json(addModeratorMessage(run, content));
+}));
+
+/**
+ * PATCH /api/runs/:id/messages/:messageId
+ * Replaces a message's text ({ content }) while the run is paused.
+ * Responds with the message.
+ */
+router.patch('/:id/messages/:messageId', handle('PATCH /api/runs/:id/messages/:messageId', async (req, res) => {
+  const run = await getRun(req.params.id);
+  const { content } = parseEditMessage(req.body);
+  res.json(editMessage(run, req.params.messageId, content));
+}));
+
+/**
+ * DELETE /api/runs/:id/messages/:messageId
+ * Deletes the message and every message after it while the run is paused
+ */
+router.delete('/:id/messages/:messageId', handle('DELETE /api/runs/:id/messages/:messageId', async (req, res) => {
+  const run = await getRun(req.params.id);
+  deleteMessagesFrom(run, req.params.messageId);
+  res.json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/messages/:messageId/regenerate
+ * Plays a participant's reply again while the run is paused, optionally with
+ * other settings for this turn ({ model?, temperature?, maxTokens?,
+ * systemPrompt?, fallbackModels? }). Responds straight away with 202; the
+ * new version arrives on the event stream and the old one is kept.
+ */
+router.post('/:id/messages/:messageId/regenerate', handle('POST /api/runs/:id/messages/:messageId/regenerate', async (req, res) => {
+  const run = await getRun(req.params.id);
+  regenerateMessage(run, req.params.messageId, parseRegenerateMessage(req.body));
+  res.status(202).json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/messages/:messageId/version
+ * Switches a regenerated reply to another version ({ version }, an index
+ * into its versions), with the messages that followed that version
+ */
+router.post('/:id/messages/:messageId/version', handle('POST /api/runs/:id/messages/:messageId/version', async (req, res) => {
+  const run = await getRun(req.params.id);
+  const { version } = parseSelectVersion(req.body);
+  selectVersion(run, req.params.messageId, version);
+  res.json(getSnapshot(run));
+}));
+
+/**
+ * POST /api/runs/:id/verdict
+ * Asks the judge to decide the conversation so far. Responds straight away
+ * with 202; the verdict arrives on the event stream.
+ */
+router.post('/:id/verdict', handle('POST /api/runs/:id/verdict', async (req, res) => {
+  const run = await getRun(req.params.id);
+  requestVerdict(run);
+  res.status(202).json(getSnapshot(run));
+}));
+
+/**
+ * GET /api/runs/:id/branches
+ * Lists every branch of the run's conversation, the run itself included,
+ * without transcripts. forkedFrom links each branch to its parent run.
+ */
+router.get('/:id/branches', handle('GET /api/runs/:id/branches', async (req, res) => {
+  res.json({ branches: await getBranches(await getRun(req.params.id)) });
+}));
+
+/**
+ * POST /api/runs/:id/branches
+ * Forks a new branch ({ messageId }) holding the transcript up to and
+ * including that message and a copy of the run's settings. The branch is
+ * idle; responds with it.
+ */
+router.post('/:id/branches', handle('POST /api/runs/:id/branches', async (req, res) => {
+  const run = await getRun(req.params.id);
+  const { messageId } = parseForkRun(req.body);
+  res.status(201).json(getSnapshot(await forkRun(run, messageId)));
+}));
+
+/**
+ * GET /api/runs/:id/events
+ * Server-Sent Events for the run: a snapshot first, then every change as
+ * it happens, tagged with the speaker (see services/orchestrator.js)
+ */
+router.get('/:id/events', handle('GET /api/runs/:id/events', async (req, res) => {
+  const run = await getRun(req.params.id);
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.flushHeaders();
+
+  const unsubscribe = subscribe(run, (event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  res.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+}));
+
+export { router as runsRouter };
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { parseBody } from './validate.js';
+
+/**
+ * Request body shared by POST /api/llm/generate and /api/llm/stream
+ *
+ * Mirrors the LLMRequest type in src/services/api.ts. Missing optional
+ * fields get the same defaults the routes have always used.
+ */
+
+const nonEmpty = (label) => z
+  .string({ required_error: `${label} is required`, invalid_type_error: `${label} must be a string` })
+  .refine((value) => value.trim().length > 0, `${label} must not be empty`);
+
+const historyMessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system', 'human', 'ai'], {
+    errorMap: () => ({ message: 'Role must be one of user, assistant, system, human or ai' }),
+  }),
+  content: nonEmpty('Message content'),
+});
+
+export const llmRequestSchema = z.object({
+  model: nonEmpty('Model'),
+  temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature must be at most 2').default(0.7),
+  maxTokens: z
+    .number()
+    .int('Max tokens must be a whole number')
+    .min(1, 'Max tokens must be at least 1')
+    .max(32768, 'Max tokens must be at most 32768')
+    .default(200),
+  systemPrompt: z.string().max(20000, 'System prompt must be at most 20000 characters').default(''),
+  conversationHistory: z
+    .array(historyMessageSchema, { required_error: 'Conversation history is required', invalid_type_error: 'Conversation history must be an array' })
+    .max(500, 'Conversation history must have at most 500 messages'),
+  fallbackModels: z
+    .array(nonEmpty('Fallback model'), { invalid_type_error: 'Fallback models must be an array' })
+    .max(5, 'At most 5 fallback models are allowed')
+    .default([]),
+});
+
+/**
+ * Validates a request body, returning the parsed request with defaults
+ * applied. Throws a VALIDATION_ERROR LLMError listing every problem.
+ */
+export function parseLLMRequest(body) {
+  return parseBody(llmRequestSchema, body);
+}
@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import { llmRequestSchema } from './llmRequest.js';
+import { parseBody } from './validate.js';
+
+/**
+ * Request bodies for the conversation run routes (server/routes/runs.js)
+ */
+
+export const MAX_PARTICIPANTS = 8;
+
+const participantIdSchema = z
+  .string({ invalid_type_error: 'Participant id must be a string' })
+  .regex(/^[A-Za-z0-9_-]{1,40}$/, 'Participant id must be 1-40 letters, digits, dashes or underscores');
+
+// Each participant's model settings use the same rules as a single LLM request
+const participantSchema = llmRequestSchema
+  .pick({
+    model: true,
+    temperature: true,
+    maxTokens: true,
+    systemPrompt: true,
+    fallbackModels: true,
+  })
+  .extend({
+    id: participantIdSchema,
+    name: z
+      .string({ required_error: 'Name is required' })
+      .trim()
+      .min(1, 'Name must not be empty')
+      .max(60, 'Name must be at most 60 characters')
+      .refine((name) => name.toLowerCase() !== 'moderator', 'The name "Moderator" is reserved for the human moderator'),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be a hex colour like #3b82f6'),
+  });
+
+const participantsSchema = z
+  .array(participantSchema, { invalid_type_error: 'Participants must be an array' })
+  .min(2, 'A conversation needs at least 2 participants')
+  .max(MAX_PARTICIPANTS, `At most ${MAX_PARTICIPANTS} participants are allowed`)
+  .superRefine((participants, ctx) => {
+    const ids = new Set();
+    const names = new Set();
+    participants.forEach((participant, index) => {
+      if (ids.has(participant.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate participant id "${participant.id}"` });
+      }
+      const name = participant.name.toLowerCase();
+      if (names.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `Duplicate participant name "${participant.name}"` });
+      }
+      ids.add(participant.id);
+      names.add(name);
+    });
+  });
+
+const criterionSchema = z
+  .string({ invalid_type_error: 'Criterion must be a string' })
+  .trim()
+  .min(1, 'Criterion must not be empty')
+  .max(40, 'Criterion must be at most 40 characters');
+
+// Optional judge: scores each turn on the criteria and gives a final verdict
+const judgeSchema = llmRequestSchema
+  .pick({ model: true, fallbackModels: true })
+  .extend({
+    temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature must be at most 2').default(0.2),
+    maxTokens: z
+      .number()
+      .int('Max tokens must be a whole number')
+      .min(50, 'Judge max tokens must be at least 50')
+      .max(32768, 'Max tokens must be at most 32768')
+      .default(400),
+    // Rubric prompt; empty uses the built-in debate rubric
+    rubric: z.string().max(20000, 'Rubric must be at most 20000 characters').default(''),
+    criteria: z
+      .array(criterionSchema, { invalid_type_error: 'Criteria must be an array' })
+      .min(1, 'The judge needs at least one criterion')
+      .max(8, 'At most 8 criteria are allowed')
+      .refine(
+        (criteria) => new Set(criteria.map((c) => c.toLowerCase())).size === criteria.length,
+        'Criteria must be unique'
+      )
+      .default(['relevance', 'persuasiveness', 'factuality']),
+  });
+
+// Optional summary memory: older messages are folded into a running summary
+const summarizerSchema = llmRequestSchema
+  .pick({ model: true, fallbackModels: true })
+  .extend({
+    temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature must be at most 2').default(0.3),
+    maxTokens: z
+      .number()
+      .int('Max tokens must be a whole number')
+      .min(100, 'Summary max tokens must be at least 100')
+      .max(4000, 'Summary max tokens must be at most 4000')
+      .default(600),
+    // Latest messages participants still see word for word
+    recentMessages: z
+      .number()
+      .int('Recent messages must be a whole number')
+      .min(4, 'Keep at least 4 recent messages')
+      .max(40, 'Keep at most 40 recent messages')
+      .default(12),
+  });
+
+// Rules that end auto-play besides maxTurns; each is off by default
+const stopConditionsSchema = z.object({
+  maxTokens: z
+    .number()
+    .int('Max tokens must be a whole number')
+    .min(100, 'Token limit must be at least 100')
+    .max(10_000_000, 'Token limit must be at most 10000000')
+    .nullable()
+    .default(null),
+  // Ends the run when a reply contains it, e.g. "[END]" (case-insensitive)
+  stopPhrase: z.string().trim().max(100, 'Stop phrase must be at most 100 characters').default(''),
+  // Share of a reply's word 3-grams already used in recent turns, from 0.1 to 1
+  repetition: z
+    .number()
+    .min(0.1, 'Repetition threshold must be at least 0.1')
+    .max(1, 'Repetition threshold must be at most 1')
+    .nullable()
+    .default(null),
+  // Lets participants end the run by all agreeing to conclude
+  agreement: z.boolean().default(false),
+});
+
+const runSettings = {
+  // round-robin follows the participants' order; custom follows speakingOrder
+  turnOrder: z.enum(['round-robin', 'custom'], {
+    errorMap: () => ({ message: 'Turn order must be round-robin or custom' }),
+  }).default('round-robin'),
+  // Participant ids, repeated as often as each should speak per cycle
+  speakingOrder: z.array(participantIdSchema).max(100, 'Speaking order must have at most 100 entries').default([]),
+  autoPlay: z.boolean().default(true),
+  delayMs: z.number().int().min(0, 'Delay must be at least 0').max(60000, 'Delay must be at most 60000 ms').default(1000),
+  maxTurns: z.number().int().min(1, 'Max turns must be at least 1').max(500, 'Max turns must be at most 500').default(20),
+  judge: judgeSchema.nullable().default(null),
+  stopConditions: stopConditionsSchema.default({}),
+  // null leaves out whatever history doesn't fit instead of summarising it
+  summarizer: summarizerSchema.nullable().default(null),
+};
+
+const titleSchema = z.string().trim().max(200, 'Title must be at most 200 characters');
+const topicSchema = z.string().max(2000, 'Topic must be at most 2000 characters');
+
+export const createRunSchema = z.object({
+  // Name shown in the conversation history; empty falls back to the topic
+  title: titleSchema.default(''),
+  topic: topicSchema.default(''),
+  participants: participantsSchema,
+  // Who opens the conversation (default: the first in the speaking order)
+  startingSpeaker: participantIdSchema.optional(),
+  ...runSettings,
+});
+
+export const updateRunSchema = z.object({
+  title: titleSchema,
+  topic: topicSchema,
+  // Replaces the whole list, so participants can be added, removed or reordered
+  participants: participantsSchema,
+  turnOrder: runSettings.turnOrder.removeDefault(),
+  speakingOrder: runSettings.speakingOrder.removeDefault(),
+  autoPlay: runSettings.autoPlay.removeDefault(),
+  delayMs: runSettings.delayMs.removeDefault(),
+  maxTurns: runSettings.maxTurns.removeDefault(),
+  judge: judgeSchema.nullable(),
+  stopConditions: stopConditionsSchema,
+  summarizer: summarizerSchema.nullable(),
+}).partial();
+
+const tokenCountSchema = z.number().int().min(0);
+
+// A transcript message with its metadata, as a run stores it. Fields not
+// listed here (scores, context budgets, versions) are kept as they are.
+const storedMessageSchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Message id must be 1-64 letters, digits, dashes or underscores').optional(),
+    speaker: participantIdSchema.nullable(),
+    name: z.string().trim().min(1, 'Message name must not be empty').max(60, 'Message name must be at most 60 characters'),
+    moderator: z.boolean().optional(),
+    content: z.string().max(200000, 'Message content must be at most 200000 characters'),
+    createdAt: z.string().datetime({ message: 'createdAt must be an ISO date' }).optional(),
+    model: z.string().optional(),
+    fallbackFrom: z.string().optional(),
+    usage: z
+      .object({
+        promptTokens: tokenCountSchema,
+        completionTokens: tokenCountSchema,
+        totalTokens: tokenCountSchema,
+        estimated: z.boolean().optional(),
+      })
+      .optional(),
+    cost: z.number().min(0).nullable().optional(),
+    interrupted: z.boolean().optional(),
+    edited: z.boolean().optional(),
+  })
+  .passthrough();
+
+const transcriptSchema = z.array(storedMessageSchema).max(5000, 'A conversation can have at most 5000 messages');
+
+// A conversation with its transcript, e.g. one saved elsewhere
+export const createConversationSchema = createRunSchema.extend({
+  messages: transcriptSchema.default([]),
+});
+
+// Settings as for a run, and optionally a new transcript replacing the old one
+export const updateConversationSchema = updateRunSchema.extend({
+  messages: transcriptSchema.optional(),
+});
+
+export const moderatorMessageSchema = z.object({
+  content: z
+    .string({ required_error: 'Content is required', invalid_type_error: 'Content must be a string' })
+    .trim()
+    .min(1, 'Content must not be empty')
+    .max(5000, 'Content must be at most 5000 characters'),
+});
+
+export const playTurnSchema = z.object({
+  speaker: participantIdSchema.optional(),
+});
+
+export const forkRunSchema = z.object({
+  messageId: z
+    .string({ required_error: 'Message id is required', invalid_type_error: 'Message id must be a string' })
+    .min(1, 'Message id must not be empty'),
+});
+
+export const editMessageSchema = z.object({
+  content: z
+    .string({ required_error: 'Content is required', invalid_type_error: 'Content must be a string' })
+    .trim()
+    .min(1, 'Content must not be empty')
+    .max(200000, 'Content must be at most 200000 characters'),
+});
+
+// Settings to use for the regenerated reply only; the participant's otherwise
+export const regenerateMessageSchema = participantSchema
+  .pick({
+    model: true,
+    temperature: true,
+    maxTokens: true,
+    systemPrompt: true,
+    fallbackModels: true,
+  })
+  .partial();
+
+export const exportQuerySchema = z.object({
+  format: z
+    .enum(['markdown', 'json', 'html'], {
+      errorMap: () => ({ message: 'Format must be markdown, json or html' }),
+    })
+    .default('markdown'),
+});
+
+export const selectVersionSchema = z.object({
+  version: z
+    .number({ required_error: 'Version is required', invalid_type_error: 'Version must be a number' })
+    .int('Version must be a whole number')
+    .min(0, 'Version must be at least 0'),
+});
+
+export const parseCreateRun = (body) => parseBody(createRunSchema, body);
+export const parseUpdateRun = (body) => parseBody(updateRunSchema, body);
+export const parsePlayTurn = (body) => parseBody(playTurnSchema, body);
+export const parseModeratorMessage = (body) => parseBody(moderatorMessageSchema, body);
+export const parseForkRun = (body) => parseBody(forkRunSchema, body);
+export const parseEditMessage = (body) => parseBody(editMessageSchema, body);
+export const parseRegenerateMessage = (body) => parseBody(regenerateMessageSchema, body);
+export const parseSelectVersion = (body) => parseBody(selectVersionSchema, body);
+export const parseCreateConversation = (body) => parseBody(createConversationSchema, body);
+export const parseUpdateConversation = (body) => parseBody(updateConversationSchema, body);
+export const parseExportQuery = (query) => parseBody(exportQuerySchema, query);
@@ -0,0 +1,23 @@
+import { LLMError, ErrorCodes } from '../services/errors.js';
+
+/**
+ * Parses a request body against a zod schema, returning the data with
+ * defaults applied. Throws a VALIDATION_ERROR LLMError whose details list
+ * every problem by field path.
+ */
+export function parseBody(schema, body) {
+  const result = schema.safeParse(body ?? {});
+  if (result.success) {
+    return result.data;
+  }
+
+  const details = result.error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+  throw new LLMError(
+    ErrorCodes.VALIDATION_ERROR,
+    details.map((d) => (d.path ? `${d.path}: ${d.message}` : d.message)).join('; '),
+    details
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Adapter for the Anthropic Messages API
+ *
+ * The Messages format differs from OpenAI chat completions: the system
+ * prompt is a top-level field, turns must strictly alternate between user
+ * and assistant (starting with user), and streams use their own typed
+ * events. Requests go straight to {baseURL}/v1/messages, so pointing
+ * ANTHROPIC_BASE_URL at a local stub server is enough to test it.
+ */
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Converts OpenAI-format messages into a Messages API request body
+ */
+function toMessagesRequest({ upstreamModel, temperature, maxTokens, messages }) {
+  const system = messages
+    .filter((msg) => msg.role === 'system')
+    .map((msg) => msg.content)
+    .join('\n\n');
+
+  // Merge consecutive turns from the same role to keep strict alternation
+  const turns = [];
+  for (const msg of messages) {
+    if (msg.role === 'system' || !msg.content) {
+      continue;
+    }
+    const last = turns[turns.length - 1];
+    if (last && last.role === msg.role) {
+      last.content = `${last.content}\n\n${msg.content}`;
+    } else {
+      turns.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  // The first turn must come from the user
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: 'Hello' });
+  }
+
+  const body = {
+    model: upstreamModel,
+    max_tokens: maxTokens,
+    // Anthropic accepts temperatures from 0 to 1
+    temperature: Math.min(Math.max(temperature, 0), 1),
+    messages: turns,
+  };
+  if (system) {
+    body.system = system;
+  }
+  return body;
+}
+
+async function postMessages({ apiKey, baseURL, signal }, body) {
+  const response = await fetch(`${baseURL.replace(/\/$/, '')}/v1/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}));
+    const error = new Error(
+      `${response.status} ${errorBody.error?.message || response.statusText || 'Anthropic API request failed'}`
+    );
+    error.status = response.status;
+    error.headers = Object.fromEntries(response.headers.entries());
+    error.error = errorBody.error;
+    throw error;
+  }
+
+  return response;
+}
+
+function createStreamError(event) {
+  const error = new Error(event.error?.message || 'Anthropic stream error');
+  error.error = event.error;
+  // Overloaded errors arrive mid-stream rather than as an HTTP status
+  if (event.error?.type === 'overloaded_error') {
+    error.status = 529;
+  }
+  return error;
+}
+
+/**
+ * Reads a Server-Sent Events body and yields each parsed event payload
+ */
+async function* readEvents(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const bytes of body) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        yield JSON.parse(data);
+      }
+    }
+  }
+}
+
+export async function generate(params) {
+  const response = await postMessages(params, toMessagesRequest(params));
+  const message = await response.json();
+
+  const content = (message.content || [])
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text)
+    .join('');
+
+  return {
+    content,
+    finishReason: message.stop_reason,
+    usage: {
+      promptTokens: message.usage?.input_tokens,
+      completionTokens: message.usage?.output_tokens,
+    },
+  };
+}
+
+export async function stream(params, onChunk) {
+  const response = await postMessages(params, { ...toMessagesRequest(params), stream: true });
+
+  // Input tokens come with message_start, output tokens with message_delta
+  const usage = {};
+  for await (const event of readEvents(response.body)) {
+    if (event.type === 'message_start') {
+      usage.promptTokens = event.message?.usage?.input_tokens;
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      if (event.delta.text) {
+        onChunk(event.delta.text);
+      }
+    } else if (event.type === 'message_delta') {
+      usage.completionTokens = event.usage?.output_tokens;
+    } else if (event.type === 'error') {
+      throw createStreamError(event);
+    } else if (event.type === 'message_stop') {
+      break;
+    }
+  }
+
+  return { usage };
+}
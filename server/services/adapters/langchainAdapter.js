@@ -0,0 +1,77 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages';
+
+/**
+ * Adapter that routes requests through LangChain's ChatOpenAI
+ */
+function createLLM({ apiKey, baseURL, upstreamModel, temperature, maxTokens }) {
+  return new ChatOpenAI({
+    model: upstreamModel,
+    temperature: temperature,
+    maxTokens: maxTokens,
+    apiKey: apiKey,
+    // llmService retries with its own backoff policy
+    maxRetries: 0,
+    // Report token usage on the final streamed chunk
+    streamUsage: true,
+    configuration: {
+      baseURL: baseURL,
+    },
+  });
+}
+
+/**
+ * Converts OpenAI-format messages to LangChain message objects
+ */
+function toLangChainMessages(messages) {
+  return messages.map((msg) => {
+    if (msg.role === 'assistant') {
+      return new AIMessage(msg.content);
+    }
+    if (msg.role === 'system') {
+      return new SystemMessage(msg.content);
+    }
+    return new HumanMessage(msg.content);
+  });
+}
+
+/**
+ * Maps LangChain usage metadata to our usage shape
+ */
+function toUsage(usageMetadata) {
+  if (!usageMetadata) {
+    return null;
+  }
+  return {
+    promptTokens: usageMetadata.input_tokens,
+    completionTokens: usageMetadata.output_tokens,
+  };
+}
+
+export async function generate(params) {
+  const llm = createLLM(params);
+  const response = await llm.invoke(toLangChainMessages(params.messages), { signal: params.signal });
+
+  return {
+    content: typeof response.content === 'string' ? response.content : '',
+    usage: toUsage(response.usage_metadata),
+  };
+}
+
+export async function stream(params, onChunk) {
+  const llm = createLLM(params);
+  const stream = await llm.stream(toLangChainMessages(params.messages), { signal: params.signal });
+
+  let usage = null;
+  for await (const chunk of stream) {
+    const content = typeof chunk.content === 'string' ? chunk.content : '';
+    if (content) {
+      onChunk(content);
+    }
+    if (chunk.usage_metadata) {
+      usage = toUsage(chunk.usage_metadata);
+    }
+  }
+
+  return { usage };
+}
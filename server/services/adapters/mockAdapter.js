@@ -0,0 +1,235 @@
+import { readFileSync } from 'fs';
+import { sleep } from '../sleep.js';
+
+/**
+ * Offline adapter for the mock-* model family
+ *
+ * Replies are deterministic: the same seed and conversation always produce
+ * the same text, so the UI and SSE handling can be exercised without keys
+ * or network. Error models fail the same way real providers do (an error
+ * with an HTTP status), so error handling paths can be tested too.
+ *
+ * Environment:
+ *   MOCK_LLM_SEED        base seed for mock-random (default 42)
+ *   MOCK_LLM_CHUNK_SIZE  characters per streamed chunk (default 8)
+ *   MOCK_LLM_LATENCY_MS  delay before each chunk, and before a full reply (default 30)
+ *   MOCK_LLM_SCRIPT      path to a JSON array of replies for mock-scripted
+ *
+ * mock-judge answers a judge's requests in the JSON shape they ask for, with
+ * seeded scores and winner.
+ */
+
+const DEFAULT_SCRIPT = [
+  "Hello! I'm a mock model, so everything I say is scripted.",
+  'That is an interesting point. Could you tell me more about it?',
+  'I see it a little differently, but I think we agree on the basics.',
+  "Let's wrap up here - it was a pleasure talking with you.",
+];
+
+const OPENERS = [
+  'Interesting.',
+  'Good point.',
+  'I hear you.',
+  'Fair enough.',
+  'Hmm, let me think.',
+  'That makes sense.',
+];
+
+const SENTENCES = [
+  'I think the key question is what we are optimising for.',
+  'There are trade-offs on both sides worth considering.',
+  'History suggests change usually happens more slowly than expected.',
+  'It helps to look at a concrete example before generalising.',
+  'I would push back slightly on that assumption.',
+  'The evidence here is mixed, so some humility is warranted.',
+  'What would change your mind on this?',
+  'Small incremental steps often beat one big leap.',
+  'People tend to overestimate short-term effects and underestimate long-term ones.',
+  'Let me offer a different angle on the same problem.',
+];
+
+function getConfig() {
+  return {
+    seed: parseInt(process.env.MOCK_LLM_SEED || '42', 10),
+    chunkSize: Math.max(1, parseInt(process.env.MOCK_LLM_CHUNK_SIZE || '8', 10)),
+    latencyMs: Math.max(0, parseInt(process.env.MOCK_LLM_LATENCY_MS || '30', 10)),
+    scriptPath: process.env.MOCK_LLM_SCRIPT,
+  };
+}
+
+/**
+ * Small, fast seeded PRNG (mulberry32)
+ */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * FNV-1a hash, used to mix the conversation into the seed
+ */
+function hashString(text) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function loadScript(scriptPath) {
+  if (!scriptPath) {
+    return DEFAULT_SCRIPT;
+  }
+  const script = JSON.parse(readFileSync(scriptPath, 'utf-8'));
+  if (!Array.isArray(script) || script.length === 0) {
+    throw new Error(`MOCK_LLM_SCRIPT must contain a non-empty JSON array of replies (${scriptPath})`);
+  }
+  return script.map(String);
+}
+
+function createMockError(status, message, headers = {}) {
+  const error = new Error(`${status} ${message}`);
+  error.status = status;
+  error.headers = headers;
+  return error;
+}
+
+function randomReply(messages, seed, maxTokens) {
+  const random = createRandom(seed ^ hashString(JSON.stringify(messages)));
+  const pick = (list) => list[Math.floor(random() * list.length)];
+
+  const parts = [pick(OPENERS)];
+  const sentenceCount = 1 + Math.floor(random() * 3);
+  for (let i = 0; i < sentenceCount; i++) {
+    parts.push(pick(SENTENCES));
+  }
+
+  // Roughly four characters per token, so long replies respect maxTokens
+  return parts.join(' ').slice(0, Math.max(1, maxTokens) * 4);
+}
+
+/**
+ * Fills in the JSON shape the judge's instructions end with ("... in this
+ * shape: {...}"): seeded scores for each criterion, or a winner among the
+ * prompt's "Participants: ..." line
+ */
+function judgeReply(messages, seed) {
+  const random = createRandom(seed ^ hashString(JSON.stringify(messages)));
+  const instructions = messages.find((m) => m.role === 'system')?.content || '';
+  const prompt = [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+  const marker = 'in this shape: ';
+  const markerAt = instructions.lastIndexOf(marker);
+  let shape;
+  try {
+    shape = JSON.parse(instructions.slice(markerAt + marker.length).trim());
+  } catch {
+    shape = null;
+  }
+  if (markerAt === -1 || !shape) {
+    return 'Mock judge: there is nothing to judge in this request.';
+  }
+
+  if (shape.scores) {
+    const scores = Object.fromEntries(Object.keys(shape.scores).map((key) => [key, 4 + Math.floor(random() * 7)]));
+    return JSON.stringify({ scores, rationale: 'Mock judge: scores are seeded, not read from the turn.' });
+  }
+  const names = (/^Participants: (.+)$/m.exec(prompt)?.[1] || '').split(', ').filter(Boolean);
+  const winner = names.length > 0 ? names[Math.floor(random() * names.length)] : 'tie';
+  return JSON.stringify({ winner, rationale: 'Mock judge: the winner is seeded, not read from the conversation.' });
+}
+
+/**
+ * Produces the reply for a mock model, or throws the error it simulates
+ */
+function buildReply({ upstreamModel, messages, maxTokens }) {
+  const config = getConfig();
+
+  switch (upstreamModel) {
+    case 'mock-error-429':
+      throw createMockError(429, 'Rate limit reached for mock model. Please try again in 2s.', { 'retry-after': '2' });
+    case 'mock-error-401':
+      throw createMockError(401, 'Invalid API key provided (mock).');
+    case 'mock-error-500':
+      throw createMockError(500, 'The mock server had an error while processing your request.');
+    case 'mock-empty':
+      return '';
+    case 'mock-echo': {
+      const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+      return `Echo: ${lastUser?.content || ''}`;
+    }
+    case 'mock-judge':
+      return judgeReply(messages, config.seed);
+    case 'mock-scripted': {
+      const script = loadScript(config.scriptPath);
+      const turn = messages.filter((m) => m.role === 'assistant').length;
+      return script[turn % script.length];
+    }
+    default:
+      return randomReply(messages, config.seed, maxTokens);
+  }
+}
+
+/**
+ * Mock token counts: about four characters per token
+ */
+function estimateUsage(messages, content) {
+  const countTokens = (text) => Math.ceil((text || '').length / 4);
+  return {
+    promptTokens: messages.reduce((sum, msg) => sum + countTokens(msg.content), 0),
+    completionTokens: countTokens(content),
+  };
+}
+
+function splitIntoChunks(text, chunkSize) {
+  const chunks = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    chunks.push(text.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+export async function generate(params) {
+  const { latencyMs } = getConfig();
+  await sleep(latencyMs, params.signal);
+
+  if (params.upstreamModel === 'mock-midstream-error') {
+    throw createMockError(502, 'Mock connection dropped before the response completed.');
+  }
+
+  const content = buildReply(params);
+  return {
+    content,
+    finishReason: 'stop',
+    usage: estimateUsage(params.messages, content),
+  };
+}
+
+export async function stream(params, onChunk) {
+  const { chunkSize, latencyMs } = getConfig();
+  const failMidStream = params.upstreamModel === 'mock-midstream-error';
+  const reply = buildReply(failMidStream ? { ...params, upstreamModel: 'mock-random' } : params);
+  const chunks = splitIntoChunks(reply, chunkSize);
+  const failAt = failMidStream ? Math.max(1, Math.floor(chunks.length / 2)) : -1;
+
+  for (let i = 0; i < chunks.length; i++) {
+    if (i === failAt) {
+      throw createMockError(502, 'Mock stream interrupted mid-response.');
+    }
+    await sleep(latencyMs, params.signal);
+    onChunk(chunks[i]);
+  }
+
+  // Replies too short to split still fail after their only chunk
+  if (failMidStream) {
+    throw createMockError(502, 'Mock stream interrupted mid-response.');
+  }
+
+  return { usage: estimateUsage(params.messages, reply) };
+}
@@ -0,0 +1,97 @@
+import OpenAI from 'openai';
+
+/**
+ * Adapter for OpenAI-compatible chat completion APIs (Groq, DeepSeek, ...)
+ * Talks to the provider through the OpenAI SDK with a swapped baseURL.
+ * SDK retries are off - llmService retries with its own backoff policy.
+ */
+function createClient({ apiKey, baseURL }) {
+  return new OpenAI({
+    apiKey: apiKey,
+    baseURL: baseURL,
+    maxRetries: 0,
+  });
+}
+
+/**
+ * Maps OpenAI-style usage counts to our usage shape
+ */
+function toUsage(usage) {
+  if (!usage) {
+    return null;
+  }
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+  };
+}
+
+export async function generate({ apiKey, baseURL, upstreamModel, temperature, maxTokens, messages, signal }) {
+  const client = createClient({ apiKey, baseURL });
+
+  const completion = await client.chat.completions.create({
+    model: upstreamModel,
+    messages: messages,
+    temperature: temperature,
+    max_tokens: maxTokens,
+  }, { signal });
+
+  // Try multiple ways to extract content
+  const choice = completion.choices?.[0];
+  let content = choice?.message?.content;
+  if (!content && choice) {
+    content = choice.text || choice.content || (typeof choice === 'string' ? choice : null);
+  }
+
+  return {
+    content: content || '',
+    finishReason: choice?.finish_reason,
+    usage: toUsage(completion.usage),
+  };
+}
+
+export async function stream({ apiKey, baseURL, upstreamModel, temperature, maxTokens, messages, signal }, onChunk) {
+  const client = createClient({ apiKey, baseURL });
+
+  const stream = await client.chat.completions.create({
+    model: upstreamModel,
+    messages: messages,
+    temperature: temperature,
+    max_tokens: maxTokens,
+    stream: true,
+    stream_options: { include_usage: true },
+  }, { signal });
+
+  let usage = null;
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content || '';
+    if (content) {
+      onChunk(content);
+    }
+    // Usage arrives on the final chunk (Groq reports it under x_groq)
+    const chunkUsage = chunk.usage || chunk.x_groq?.usage;
+    if (chunkUsage) {
+      usage = toUsage(chunkUsage);
+    }
+  }
+
+  return { usage };
+}
+
+/**
+ * Asks an OpenAI-compatible server which models it serves (GET /models)
+ */
+export async function listModels({ apiKey, baseURL }) {
+  const client = new OpenAI({
+    apiKey: apiKey,
+    baseURL: baseURL,
+    timeout: 5000,
+    maxRetries: 0,
+  });
+
+  const ids = [];
+  for await (const model of client.models.list()) {
+    ids.push(model.id);
+  }
+  return ids;
+}
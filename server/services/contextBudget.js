@@ -0,0 +1,110 @@
+import { resolveModel } from './providerRegistry.js';
+import { estimateTokens } from './usage.js';
+
+/**
+ * Token budget for a participant's turn
+ *
+ * Each model has a context window (maxContext in config/providers.js) that
+ * must hold the system prompt, the history and the reply. The reply gets
+ * the participant's maxTokens (at most half the window), and the history is
+ * trimmed from the oldest message until the rest fits.
+ *
+ * Tokens are estimated from the text (about four characters per token) and
+ * calibrated per model against the prompt tokens providers report, so the
+ * estimate follows each model's tokenizer after a few turns.
+ */
+
+const MESSAGE_OVERHEAD = 4; // Role and separator tokens around each message
+const SAFETY_MARGIN = 0.05; // Share of the window kept free for estimation error
+const OPENING_ALLOWANCE = 50; // Topic opening added to some histories
+const DEFAULT_CONTEXT = 8192; // For models the registry can't resolve
+
+// How quickly calibration follows new reports, and how far it may move
+const CALIBRATION_WEIGHT = 0.3;
+const MIN_CALIBRATION = 0.5;
+const MAX_CALIBRATION = 2;
+
+const calibration = new Map(); // model -> reported / estimated prompt tokens
+
+function getContextLimit(model) {
+  try {
+    return resolveModel(model).capabilities.maxContext || DEFAULT_CONTEXT;
+  } catch (error) {
+    return DEFAULT_CONTEXT;
+  }
+}
+
+const getCalibration = (model) => calibration.get(model) ?? 1;
+
+/**
+ * Uncalibrated token count of a system prompt and chat history
+ */
+export function countPromptTokens(systemPrompt, history) {
+  return history.reduce(
+    (sum, msg) => sum + estimateTokens(msg.content) + MESSAGE_OVERHEAD,
+    estimateTokens(systemPrompt) + MESSAGE_OVERHEAD
+  );
+}
+
+/**
+ * Moves a model's calibration towards the prompt tokens its provider reported
+ * for a prompt estimated at `estimated` tokens
+ */
+export function calibrate(model, estimated, reported) {
+  if (!(estimated > 0) || !(reported > 0)) {
+    return;
+  }
+  const ratio = Math.min(MAX_CALIBRATION, Math.max(MIN_CALIBRATION, reported / estimated));
+  const current = calibration.get(model);
+  calibration.set(model, current === undefined ? ratio : current + (ratio - current) * CALIBRATION_WEIGHT);
+}
+
+/**
+ * Fits a turn into the smallest context window among the participant's
+ * model and fallbacks. Messages before `start` are already left out (the
+ * summary covers them).
+ *
+ * Returns the index of the first message that fits, the reply budget and
+ * a breakdown of the estimated tokens for the context meter.
+ */
+export function fitContext(participant, systemPrompt, messages, start = 0) {
+  const models = [participant.model, ...(participant.fallbackModels || [])];
+  const limit = Math.min(...models.map(getContextLimit));
+  const factor = getCalibration(participant.model);
+  const estimate = (text) => Math.ceil((estimateTokens(text) + MESSAGE_OVERHEAD) * factor);
+
+  const reply = Math.min(participant.maxTokens, Math.floor(limit / 2));
+  const system = estimate(systemPrompt);
+  const available = Math.floor(limit * (1 - SAFETY_MARGIN)) - reply - system - OPENING_ALLOWANCE;
+
+  let first = messages.length;
+  let history = 0;
+  for (let i = messages.length - 1; i >= start; i--) {
+    const msg = messages[i];
+    if (!msg.content.trim()) {
+      first = i;
+      continue;
+    }
+    const tokens = estimate(`${msg.name}: ${msg.content}`);
+    // Always keep the latest message, even if it alone is too long
+    if (history > 0 && history + tokens > available) {
+      break;
+    }
+    history += tokens;
+    first = i;
+  }
+  first = Math.max(first, start);
+
+  return {
+    start: first,
+    maxTokens: reply,
+    context: {
+      limit,
+      system,
+      history,
+      reply,
+      messages: messages.slice(first).filter((msg) => msg.content.trim()).length,
+      trimmed: first - start, // Messages dropped to fit, not covered by a summary
+    },
+  };
+}
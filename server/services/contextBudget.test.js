@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { calibrate, countPromptTokens, fitContext } from './contextBudget.js';
+
+// mock-* models have a 32768 token window
+const participant = { model: 'mock-random', maxTokens: 1000, fallbackModels: [] };
+
+// "A: " plus 3996 characters: 1000 tokens, 1004 with the message overhead
+const message = (content = 'x'.repeat(3996)) => ({ name: 'A', content });
+
+describe('countPromptTokens', () => {
+  it('counts about four characters per token plus each message overhead', () => {
+    expect(countPromptTokens('x'.repeat(40), [{ content: 'y'.repeat(8) }, { content: '' }])).toBe(10 + 4 + 2 + 4 + 0 + 4);
+  });
+});
+
+describe('fitContext', () => {
+  it('keeps a short transcript whole', () => {
+    const messages = [message('Hi.'), message('Hello.')];
+    const fit = fitContext(participant, 'Be brief.', messages);
+    expect(fit.start).toBe(0);
+    expect(fit.maxTokens).toBe(1000);
+    expect(fit.context).toMatchObject({ limit: 32768, reply: 1000, messages: 2, trimmed: 0 });
+  });
+
+  it('gives the reply at most half the window', () => {
+    expect(fitContext({ ...participant, maxTokens: 100_000 }, '', []).maxTokens).toBe(16384);
+  });
+
+  it('drops the oldest messages that do not fit', () => {
+    // 31129 usable tokens - 1000 reply - 4 system - 50 opening = 30075, room for 29 messages
+    const messages = Array.from({ length: 40 }, () => message());
+    const fit = fitContext(participant, '', messages);
+    expect(fit.start).toBe(11);
+    expect(fit.context).toMatchObject({ history: 29 * 1004, messages: 29, trimmed: 11 });
+  });
+
+  it('counts only the trimming after the summarised messages', () => {
+    const messages = Array.from({ length: 40 }, () => message());
+    const fit = fitContext(participant, '', messages, 5);
+    expect(fit.start).toBe(11);
+    expect(fit.context.trimmed).toBe(6);
+    expect(fitContext(participant, '', messages, 20).start).toBe(20);
+  });
+
+  it('always keeps the latest message', () => {
+    const fit = fitContext(participant, '', [message('Hi.'), message('x'.repeat(400_000))]);
+    expect(fit.start).toBe(1);
+    expect(fit.context.messages).toBe(1);
+  });
+
+  it('leaves empty messages out of the count', () => {
+    const fit = fitContext(participant, '', [message('Hi.'), message('  '), message('')]);
+    expect(fit.start).toBe(0);
+    expect(fit.context.messages).toBe(1);
+  });
+
+  it('fits the smallest window among the fallback models', () => {
+    const fit = fitContext({ ...participant, fallbackModels: ['gpt-4'] }, '', []);
+    expect(fit.context.limit).toBe(8192);
+  });
+});
+
+describe('calibrate', () => {
+  const model = 'mock-scripted';
+  const systemTokens = () => fitContext({ ...participant, model }, 'x'.repeat(396), []).context.system;
+
+  it('scales the estimate towards the reported prompt tokens', () => {
+    expect(systemTokens()).toBe(103);
+    calibrate(model, 100, 150);
+    expect(systemTokens()).toBe(155);
+    // Later reports move it part of the way: 1.5 + (1 - 1.5) * 0.3 = 1.35
+    calibrate(model, 100, 100);
+    expect(systemTokens()).toBe(140);
+  });
+
+  it('keeps the factor between 0.5 and 2', () => {
+    calibrate('mock-echo', 100, 1000);
+    expect(fitContext({ ...participant, model: 'mock-echo' }, 'x'.repeat(396), []).context.system).toBe(206);
+  });
+
+  it('ignores reports without counts', () => {
+    const before = systemTokens();
+    calibrate(model, 0, 100);
+    calibrate(model, 100, 0);
+    expect(systemTokens()).toBe(before);
+  });
+});
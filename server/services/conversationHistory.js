@@ -0,0 +1,84 @@
+/**
+ * Builds what one participant of a conversation run sees
+ *
+ * The speaker's own messages are "assistant" turns; everyone else's are
+ * "user" turns prefixed with the author's name ("Ada: ..."), so a model can
+ * tell the other participants apart. Messages from the human moderator are
+ * included for everyone the same way ("Moderator: ..."). Consecutive
+ * messages from others are merged into one user turn, since providers
+ * expect roles to alternate. When the speaker has the last word already,
+ * a short user turn asks it to continue.
+ *
+ * How much of the transcript is included is decided by the token budget
+ * (see contextBudget.js). With summary memory (see summarizer.js), the
+ * messages the summary covers are left out and the summary goes in the
+ * system prompt.
+ */
+
+const CONTINUE_PROMPT = 'Please continue.';
+
+const joinNames = (names) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+/**
+ * The participant's own system prompt, followed by who it is talking to and
+ * the summary of earlier messages, if any
+ */
+export function buildSystemPrompt(participant, participants, summary = null) {
+  const others = participants.filter((p) => p.id !== participant.id).map((p) => p.name);
+  const intro = `You are ${participant.name}, in a conversation with ${joinNames(others)}. `
+    + "Their messages start with the speaker's name. Reply as yourself, without a name prefix. "
+    + 'The human running the conversation may step in as "Moderator"; follow their directions.';
+  return [
+    participant.systemPrompt.trim(),
+    intro,
+    summary && `Summary of the conversation before the messages you can see:\n${summary.content}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * @param messages the run transcript, oldest first, each with a speaker id and name
+ * @param speaker  id of the participant about to reply
+ * @param topic    opens the conversation when nobody else has spoken first
+ * @param start    index of the first message to include
+ */
+export function buildParticipantHistory(messages, speaker, topic, start = 0) {
+  const opening = {
+    role: 'user',
+    content: topic ? `Let's discuss: "${topic}". Please start the conversation.` : 'Please start the conversation.',
+  };
+
+  const history = [];
+  for (const msg of messages.slice(start)) {
+    if (!msg.content.trim()) {
+      continue;
+    }
+    const entry = msg.speaker === speaker
+      ? { role: 'assistant', content: msg.content }
+      : { role: 'user', content: `${msg.name}: ${msg.content}` };
+
+    const last = history[history.length - 1];
+    if (last && last.role === entry.role) {
+      last.content += `\n\n${entry.content}`;
+    } else {
+      history.push(entry);
+    }
+  }
+
+  // Speaking twice in a row (the others' replies were empty, or a turn was
+  // played out of order): keep the speaker's own last reply and ask it to go
+  // on, since providers expect the history to end with a user turn
+  if (history.length > 0 && history[history.length - 1].role === 'assistant') {
+    history.push({ role: 'user', content: CONTINUE_PROMPT });
+  }
+
+  // Open with the topic until a participant has spoken (a moderator may
+  // step in first); providers also expect the history to start with a user turn
+  const started = messages.some((msg) => !msg.moderator);
+  if (history.length === 0 || history[0].role === 'assistant') {
+    history.unshift(opening);
+  } else if (!started) {
+    history[0].content = `${opening.content}\n\n${history[0].content}`;
+  }
+  return history;
+}
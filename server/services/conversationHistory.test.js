@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { buildParticipantHistory, buildSystemPrompt } from './conversationHistory.js';
+
+const say = (speaker, name, content) => ({ speaker, name, content });
+const moderator = (content) => ({ speaker: null, name: 'Moderator', content, moderator: true });
+
+describe('buildParticipantHistory', () => {
+  it('opens with the topic before anyone has spoken', () => {
+    expect(buildParticipantHistory([], 'a', 'Tabs or spaces')).toEqual([
+      { role: 'user', content: 'Let\'s discuss: "Tabs or spaces". Please start the conversation.' },
+    ]);
+    expect(buildParticipantHistory([], 'a', '')).toEqual([
+      { role: 'user', content: 'Please start the conversation.' },
+    ]);
+  });
+
+  it("gives the speaker's own messages as assistant turns and names the others", () => {
+    const messages = [say('a', 'Ada', 'Tabs.'), say('b', 'Bo', 'Spaces.')];
+    expect(buildParticipantHistory(messages, 'a', 'Tabs or spaces')).toEqual([
+      { role: 'user', content: 'Let\'s discuss: "Tabs or spaces". Please start the conversation.' },
+      { role: 'assistant', content: 'Tabs.' },
+      { role: 'user', content: 'Bo: Spaces.' },
+    ]);
+  });
+
+  it('merges consecutive messages from others into one user turn', () => {
+    const messages = [say('a', 'Ada', 'Hi.'), say('b', 'Bo', 'Hello.'), say('c', 'Cy', 'Hey.')];
+    expect(buildParticipantHistory(messages, 'a', '')).toEqual([
+      { role: 'user', content: 'Please start the conversation.' },
+      { role: 'assistant', content: 'Hi.' },
+      { role: 'user', content: 'Bo: Hello.\n\nCy: Hey.' },
+    ]);
+  });
+
+  it("keeps the speaker's own last reply and asks it to continue", () => {
+    const messages = [say('a', 'Ada', 'Hi.'), say('b', 'Bo', 'Hello.'), say('a', 'Ada', 'One more thing.')];
+    expect(buildParticipantHistory(messages, 'a', '')).toEqual([
+      { role: 'user', content: 'Please start the conversation.' },
+      { role: 'assistant', content: 'Hi.' },
+      { role: 'user', content: 'Bo: Hello.' },
+      { role: 'assistant', content: 'One more thing.' },
+      { role: 'user', content: 'Please continue.' },
+    ]);
+  });
+
+  it('skips empty messages', () => {
+    const messages = [say('a', 'Ada', 'Hi.'), say('b', 'Bo', '   '), say('c', 'Cy', 'Hey.')];
+    expect(buildParticipantHistory(messages, 'b', '')).toEqual([
+      { role: 'user', content: 'Ada: Hi.\n\nCy: Hey.' },
+    ]);
+  });
+
+  it('adds the topic to a moderator message sent before anyone spoke', () => {
+    expect(buildParticipantHistory([moderator('Keep it short.')], 'a', 'Tabs or spaces')).toEqual([
+      {
+        role: 'user',
+        content: 'Let\'s discuss: "Tabs or spaces". Please start the conversation.\n\nModerator: Keep it short.',
+      },
+    ]);
+  });
+
+  it('starts from the given message', () => {
+    const messages = [say('a', 'Ada', 'Hi.'), say('b', 'Bo', 'Hello.'), say('a', 'Ada', 'How are you?')];
+    expect(buildParticipantHistory(messages, 'b', 'Greetings', 2)).toEqual([
+      { role: 'user', content: 'Ada: How are you?' },
+    ]);
+  });
+});
+
+describe('buildSystemPrompt', () => {
+  const participants = [
+    { id: 'a', name: 'Ada', systemPrompt: 'You like tabs.' },
+    { id: 'b', name: 'Bo', systemPrompt: '' },
+    { id: 'c', name: 'Cy', systemPrompt: '' },
+  ];
+
+  it("starts with the participant's own prompt and names the others", () => {
+    const prompt = buildSystemPrompt(participants[0], participants);
+    expect(prompt.startsWith('You like tabs.\n\nYou are Ada, in a conversation with Bo and Cy.')).toBe(true);
+  });
+
+  it('leaves out an empty own prompt', () => {
+    expect(buildSystemPrompt(participants[1], participants).startsWith('You are Bo, in a conversation with Ada and Cy.')).toBe(true);
+  });
+
+  it('ends with the summary of earlier messages', () => {
+    const prompt = buildSystemPrompt(participants[0], participants, { content: 'They disagreed.' });
+    expect(prompt.endsWith('Summary of the conversation before the messages you can see:\nThey disagreed.')).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * JSON file storage for conversations
+ *
+ * Each conversation (a run with its settings and transcript) is one file,
+ * <id>.json, in CONVERSATIONS_DIR (default: data/conversations in the
+ * project). Files are written to a temporary name and renamed into place,
+ * so a crash mid-write never leaves a truncated conversation, and writes
+ * to the same conversation happen one at a time, in order.
+ */
+
+const DEFAULT_DIR = fileURLToPath(new URL('../../data/conversations', import.meta.url));
+
+// Conversation ids are UUIDs; anything else can't name a file of ours
+const ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+const writes = new Map(); // id -> the last write queued for it
+
+function getDir() {
+  return process.env.CONVERSATIONS_DIR || DEFAULT_DIR;
+}
+
+function getPath(id) {
+  return path.join(getDir(), `${id}.json`);
+}
+
+/**
+ * Runs `task` after every write already queued for the conversation
+ */
+function enqueue(id, task) {
+  const previous = writes.get(id) || Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  writes.set(id, next);
+  next.finally(() => {
+    if (writes.get(id) === next) {
+      writes.delete(id);
+    }
+  }).catch(() => {});
+  return next;
+}
+
+/**
+ * Writes a conversation record, replacing any earlier version
+ */
+export function saveConversation(record) {
+  return enqueue(record.id, async () => {
+    await mkdir(getDir(), { recursive: true });
+    const file = getPath(record.id);
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(record, null, 2));
+    await rename(temp, file);
+  });
+}
+
+/**
+ * Reads a conversation record, or resolves null if there is none
+ */
+export async function loadConversation(id) {
+  if (!ID_PATTERN.test(id)) {
+    return null;
+  }
+  await writes.get(id)?.catch(() => {});
+  try {
+    return JSON.parse(await readFile(getPath(id), 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads every stored conversation record. Files that can't be parsed are
+ * skipped with a warning rather than failing the whole list.
+ */
+export async function loadAllConversations() {
+  let files;
+  try {
+    files = await readdir(getDir());
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map(async (file) => {
+        try {
+          return JSON.parse(await readFile(path.join(getDir(), file), 'utf8'));
+        } catch (error) {
+          console.warn(`[ConversationStore] Skipping unreadable ${file}:`, error.message);
+          return null;
+        }
+      })
+  );
+  return records.filter(Boolean);
+}
+
+/**
+ * Deletes a conversation record. Resolves true if there was one.
+ */
+export function deleteConversation(id) {
+  if (!ID_PATTERN.test(id)) {
+    return Promise.resolve(false);
+  }
+  return enqueue(id, async () => {
+    try {
+      await unlink(getPath(id));
+      return true;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  });
+}
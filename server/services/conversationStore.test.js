@@ -0,0 +1,119 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteConversation, loadAllConversations, loadConversation, saveConversation } from './conversationStore.js';
+
+const ID = '3f2b8c1e-0d4a-4b7e-9a61-2c5d8e9f0a1b';
+
+// The store is a folder inside `root`, so there is something next to it
+let root;
+let dir;
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'conversations-'));
+  dir = path.join(root, 'store');
+  await mkdir(dir);
+  vi.stubEnv('CONVERSATIONS_DIR', dir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('conversation ids', () => {
+  const badIds = ['../secrets', '..', 'a/b', 'a\\b', 'name.json', 'with space', '', 'x'.repeat(65)];
+
+  it('reads nothing for ids that are not ours', async () => {
+    await writeFile(path.join(root, 'secrets.json'), '{ "secret": true }');
+    await writeFile(path.join(dir, 'name.json.json'), '{ "id": "name.json" }');
+    for (const id of badIds) {
+      await expect(loadConversation(id)).resolves.toBeNull();
+    }
+  });
+
+  it('deletes nothing for ids that are not ours', async () => {
+    await writeFile(path.join(root, 'secrets.json'), '{ "secret": true }');
+    for (const id of badIds) {
+      await expect(deleteConversation(id)).resolves.toBe(false);
+    }
+    await expect(readFile(path.join(root, 'secrets.json'), 'utf8')).resolves.toContain('secret');
+  });
+
+  it('accepts UUIDs and up to 64 letters, digits and dashes', async () => {
+    for (const id of [ID, 'x'.repeat(64), 'Run-1']) {
+      await saveConversation({ id });
+      await expect(loadConversation(id)).resolves.toEqual({ id });
+    }
+  });
+});
+
+describe('saveConversation', () => {
+  it('writes a record that loads back', async () => {
+    const record = { id: ID, title: 'Tabs or spaces', messages: [{ id: 'm1', content: 'Tabs.' }] };
+    await saveConversation(record);
+    await expect(loadConversation(ID)).resolves.toEqual(record);
+  });
+
+  it('creates the folder when it is missing', async () => {
+    vi.stubEnv('CONVERSATIONS_DIR', path.join(dir, 'nested', 'folder'));
+    await saveConversation({ id: ID });
+    await expect(loadConversation(ID)).resolves.toEqual({ id: ID });
+  });
+
+  it('keeps the last of several writes and leaves no temporary files', async () => {
+    await Promise.all([1, 2, 3].map((version) => saveConversation({ id: ID, version })));
+    await expect(loadConversation(ID)).resolves.toEqual({ id: ID, version: 3 });
+    expect(await readdir(dir)).toEqual([`${ID}.json`]);
+  });
+
+  it('waits for queued writes before loading', async () => {
+    saveConversation({ id: ID, version: 1 });
+    await expect(loadConversation(ID)).resolves.toEqual({ id: ID, version: 1 });
+  });
+});
+
+describe('loadConversation', () => {
+  it('is null for a conversation that was never saved', async () => {
+    await expect(loadConversation(ID)).resolves.toBeNull();
+  });
+});
+
+describe('loadAllConversations', () => {
+  it('reads every record and skips files it cannot parse', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await saveConversation({ id: 'one' });
+    await saveConversation({ id: 'two' });
+    await writeFile(path.join(dir, 'broken.json'), '{ not json');
+    await writeFile(path.join(dir, 'notes.txt'), 'not a conversation');
+
+    const records = await loadAllConversations();
+    expect(records.map((record) => record.id).sort()).toEqual(['one', 'two']);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+
+  it('is empty when nothing was saved yet', async () => {
+    vi.stubEnv('CONVERSATIONS_DIR', path.join(dir, 'missing'));
+    await expect(loadAllConversations()).resolves.toEqual([]);
+  });
+});
+
+describe('deleteConversation', () => {
+  it('deletes a saved conversation', async () => {
+    await saveConversation({ id: ID });
+    await expect(deleteConversation(ID)).resolves.toBe(true);
+    await expect(loadConversation(ID)).resolves.toBeNull();
+  });
+
+  it('is false when there was nothing to delete', async () => {
+    await expect(deleteConversation(ID)).resolves.toBe(false);
+  });
+
+  it('runs after a write queued before it', async () => {
+    saveConversation({ id: ID });
+    await expect(deleteConversation(ID)).resolves.toBe(true);
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Machine-readable error codes for the LLM API
+ *
+ * Every error response carries one of these codes next to its message, both
+ * in JSON bodies and in SSE error events, so clients can react to a failure
+ * without matching on message text.
+ */
+export const ErrorCodes = {
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  PROVIDER_KEY_MISSING: 'PROVIDER_KEY_MISSING',
+  PROVIDER_AUTH_FAILED: 'PROVIDER_AUTH_FAILED',
+  MODEL_NOT_FOUND: 'MODEL_NOT_FOUND',
+  RATE_LIMITED: 'RATE_LIMITED',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  CONTEXT_TOO_LONG: 'CONTEXT_TOO_LONG',
+  PROVIDER_UNAVAILABLE: 'PROVIDER_UNAVAILABLE',
+  EMPTY_RESPONSE: 'EMPTY_RESPONSE',
+  PROVIDER_ERROR: 'PROVIDER_ERROR',
+  RUN_NOT_FOUND: 'RUN_NOT_FOUND',
+  RUN_CONFLICT: 'RUN_CONFLICT',
+  JUDGE_INVALID_RESPONSE: 'JUDGE_INVALID_RESPONSE',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+};
+
+const HTTP_STATUS = {
+  VALIDATION_ERROR: 400,
+  PROVIDER_KEY_MISSING: 503,
+  PROVIDER_AUTH_FAILED: 502,
+  MODEL_NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  CONTEXT_TOO_LONG: 400,
+  PROVIDER_UNAVAILABLE: 503,
+  EMPTY_RESPONSE: 502,
+  PROVIDER_ERROR: 502,
+  RUN_NOT_FOUND: 404,
+  RUN_CONFLICT: 409,
+  JUDGE_INVALID_RESPONSE: 502,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * An error raised by this server with a known code
+ */
+export class LLMError extends Error {
+  constructor(code, message, details) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    if (details) {
+      this.details = details;
+    }
+  }
+}
+
+/**
+ * Works out the code for any error: our own LLMErrors keep theirs, provider
+ * SDK errors are classified by HTTP status and the provider's error body
+ */
+export function getErrorCode(error) {
+  if (error instanceof LLMError) {
+    return error.code;
+  }
+
+  const status = error?.status || error?.response?.status || error?.statusCode;
+  const body = error?.error || error?.response?.data?.error || {};
+  const providerCode = `${body.code || ''} ${body.type || ''}`;
+  const message = error?.message || '';
+
+  if (/context_length_exceeded|maximum context length|prompt is too long|reduce the length/i.test(`${providerCode} ${message}`)) {
+    return ErrorCodes.CONTEXT_TOO_LONG;
+  }
+  if (/insufficient_quota|exceeded your current quota/i.test(`${providerCode} ${message}`)) {
+    return ErrorCodes.QUOTA_EXCEEDED;
+  }
+  if (status === 429) {
+    return ErrorCodes.RATE_LIMITED;
+  }
+  if (status === 401 || status === 403 || /invalid_api_key|authentication_error/.test(providerCode)) {
+    return ErrorCodes.PROVIDER_AUTH_FAILED;
+  }
+  if (
+    status === 404 ||
+    /model_not_found|not_found_error/.test(providerCode) ||
+    /model .*does not exist|model not exist/i.test(message)
+  ) {
+    return ErrorCodes.MODEL_NOT_FOUND;
+  }
+  if (status >= 500 || (!status && /connection error|fetch failed|ECONNREFUSED|timed out/i.test(message))) {
+    return ErrorCodes.PROVIDER_UNAVAILABLE;
+  }
+  if (status) {
+    return ErrorCodes.PROVIDER_ERROR;
+  }
+  return ErrorCodes.INTERNAL_ERROR;
+}
+
+export function getHttpStatus(code) {
+  return HTTP_STATUS[code] || 500;
+}
+
+/**
+ * Builds the body sent to clients for an error: { error, code, details? }
+ */
+export function toErrorBody(error, code = getErrorCode(error)) {
+  const body = {
+    error: error?.message || 'Internal server error',
+    code,
+  };
+  if (error?.details) {
+    body.details = error.details;
+  }
+  return body;
+}
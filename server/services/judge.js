@@ -0,0 +1,167 @@
+import { generateResponse } from './llmService.js';
+import { LLMError, ErrorCodes } from './errors.js';
+
+/**
+ * Judge for conversation runs
+ *
+ * An optional judge model scores each completed turn on the run's criteria
+ * (1 to 10 each, with a short rationale) and, at the end of a debate, gives
+ * a verdict naming the participant who argued best. The judge is asked to
+ * answer in JSON; a reply that can't be read as the expected shape fails
+ * with JUDGE_INVALID_RESPONSE.
+ */
+
+const DEFAULT_RUBRIC = 'You are a fair and impartial debate judge. Reward arguments that stay on topic, '
+  + 'convince with reasoning and evidence, and are factually accurate. Penalise evasion, repetition and made-up facts.';
+
+const CONTEXT_MESSAGES = 12; // Earlier messages shown when scoring a turn
+const VERDICT_MESSAGES = 80; // Messages shown when deciding the verdict
+
+const formatTranscript = (messages) =>
+  messages.map((msg) => `${msg.name}: ${msg.content}`).join('\n\n');
+
+const round = (value) => Math.round(value * 10) / 10;
+
+/**
+ * Reads the first JSON object in a reply, tolerating code fences and chatter
+ */
+function parseJsonReply(content) {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  try {
+    if (start === -1 || end <= start) {
+      throw new Error('no JSON object found');
+    }
+    return JSON.parse(content.slice(start, end + 1));
+  } catch (error) {
+    throw new LLMError(
+      ErrorCodes.JUDGE_INVALID_RESPONSE,
+      `Judge reply is not valid JSON (${error.message}): ${content.slice(0, 200)}`
+    );
+  }
+}
+
+async function askJudge(judge, instructions, prompt, signal) {
+  const result = await generateResponse(
+    judge.model,
+    judge.temperature,
+    judge.maxTokens,
+    `${judge.rubric.trim() || DEFAULT_RUBRIC}\n\n${instructions}`,
+    [{ role: 'user', content: prompt }],
+    { fallbackModels: judge.fallbackModels, signal }
+  );
+  if (!result.success) {
+    throw new LLMError(result.code || ErrorCodes.PROVIDER_ERROR, `Judge failed: ${result.error}`);
+  }
+  return {
+    reply: parseJsonReply(result.content),
+    model: result.model,
+    usage: result.usage,
+    cost: result.cost,
+  };
+}
+
+/**
+ * Scores one message of the run on each of the judge's criteria; pass
+ * `signal` to cancel
+ */
+export async function scoreTurn(judge, run, message, signal) {
+  const index = run.messages.indexOf(message);
+  const context = run.messages.slice(Math.max(0, index - CONTEXT_MESSAGES), index);
+  const example = Object.fromEntries(judge.criteria.map((criterion) => [criterion, 7]));
+
+  const instructions = `Score one turn of a conversation on each criterion from 1 (poor) to 10 (excellent): ${judge.criteria.join(', ')}. `
+    + `Reply with JSON only, in this shape: ${JSON.stringify({ scores: example, rationale: 'One or two sentences.' })}`;
+  const prompt = [
+    run.topic && `Topic: ${run.topic}`,
+    context.length > 0 && `Conversation so far:\n\n${formatTranscript(context)}`,
+    `Turn to score, by ${message.name}:\n\n${message.content}`,
+  ].filter(Boolean).join('\n\n---\n\n');
+
+  const { reply, model, usage, cost } = await askJudge(judge, instructions, prompt, signal);
+
+  // Match criteria case-insensitively; models often change the case of keys
+  const replyScores = Object.fromEntries(
+    Object.entries(reply.scores || {}).map(([key, value]) => [key.trim().toLowerCase(), value])
+  );
+  const scores = {};
+  for (const criterion of judge.criteria) {
+    const value = Number(replyScores[criterion.toLowerCase()]);
+    if (!Number.isFinite(value)) {
+      throw new LLMError(ErrorCodes.JUDGE_INVALID_RESPONSE, `Judge reply has no score for "${criterion}"`);
+    }
+    scores[criterion] = Math.min(10, Math.max(1, round(value)));
+  }
+
+  const values = Object.values(scores);
+  return {
+    scores,
+    average: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    rationale: String(reply.rationale || '').trim(),
+    model,
+    usage,
+    cost,
+  };
+}
+
+/**
+ * Average score of each participant over their scored turns, best first
+ */
+export function getStandings(run) {
+  return run.participants
+    .map((participant) => {
+      const scored = run.messages.filter((msg) => msg.speaker === participant.id && msg.score);
+      const total = scored.reduce((sum, msg) => sum + msg.score.average, 0);
+      return {
+        id: participant.id,
+        name: participant.name,
+        average: scored.length > 0 ? round(total / scored.length) : null,
+        scoredTurns: scored.length,
+      };
+    })
+    .sort((a, b) => (b.average ?? 0) - (a.average ?? 0));
+}
+
+/**
+ * Decides who argued best over the whole conversation; pass `signal` to
+ * cancel
+ */
+export async function decideVerdict(judge, run, signal) {
+  const standings = getStandings(run);
+  const transcript = run.messages.filter((msg) => msg.content.trim()).slice(-VERDICT_MESSAGES);
+  if (transcript.length === 0) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'There is nothing to judge yet');
+  }
+
+  const instructions = 'Decide which participant argued best over the whole conversation. '
+    + `Reply with JSON only, in this shape: ${JSON.stringify({ winner: 'participant name, or "tie"', rationale: 'Two or three sentences.' })}`;
+  const scoreLines = standings
+    .filter((entry) => entry.average !== null)
+    .map((entry) => `${entry.name}: ${entry.average} average over ${entry.scoredTurns} scored turns`);
+  const prompt = [
+    run.topic && `Topic: ${run.topic}`,
+    `Participants: ${run.participants.map((p) => p.name).join(', ')}`,
+    scoreLines.length > 0 && `Turn scores so far:\n${scoreLines.join('\n')}`,
+    `Conversation:\n\n${formatTranscript(transcript)}`,
+  ].filter(Boolean).join('\n\n---\n\n');
+
+  const { reply, model, usage, cost } = await askJudge(judge, instructions, prompt, signal);
+
+  const winnerName = String(reply.winner || '').trim();
+  const winner = run.participants.find((p) => p.name.toLowerCase() === winnerName.toLowerCase()) || null;
+  if (!winner && winnerName.toLowerCase() !== 'tie') {
+    throw new LLMError(ErrorCodes.JUDGE_INVALID_RESPONSE, `Judge named an unknown winner: "${winnerName}"`);
+  }
+
+  return {
+    winner: winner?.id ?? null,
+    winnerName: winner?.name ?? null,
+    rationale: String(reply.rationale || '').trim(),
+    standings,
+    model,
+    usage,
+    cost,
+    turnCount: run.turnCount, // Turns the verdict covers
+    createdAt: new Date().toISOString(),
+  };
+}
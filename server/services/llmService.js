@@ -1,320 +1,218 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages';
-import OpenAI from 'openai';
+import { withRetry } from './retry.js';
+import { withProviderSlot } from './rateLimiter.js';
+import { LLMError, ErrorCodes, getErrorCode } from './errors.js';
+import { normalizeUsage, calculateCost } from './usage.js';
+import {
+  resolveModel,
+  getApiKey,
+  getAdapter,
+  getMissingKeyMessage,
+} from './providerRegistry.js';
 
 /**
- * Creates a Langchain LLM instance based on the model name
- * Supports OpenAI and DeepSeek models
+ * Builds an OpenAI-format messages array from the system prompt and history
  */
-export function createLLM(model, temperature, maxTokens, systemPrompt) {
-  const isDeepSeek = model.startsWith('deepseek');
-  
-  const apiKey = isDeepSeek 
-    ? process.env.DEEPSEEK_API_KEY 
-    : process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
-    const serviceName = isDeepSeek ? 'DeepSeek' : 'OpenAI';
-    throw new Error(
-      `${serviceName} API key is not configured. ` +
-      `Please set ${isDeepSeek ? 'DEEPSEEK_API_KEY' : 'OPENAI_API_KEY'} in your .env file. ` +
-      `See ENV_SETUP.md for instructions.`
-    );
+export function buildMessages(systemPrompt, conversationHistory) {
+  const messages = [];
+
+  // Add system message if provided
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt });
   }
 
-  // For DeepSeek, configure ChatOpenAI with DeepSeek's base URL
-  if (isDeepSeek) {
-    const deepSeekBaseURL = process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com';
-    // Configure ChatOpenAI to use DeepSeek's API
-    // Use both modelName (for compatibility) and configuration with baseURL
-    const llm = new ChatOpenAI({
-      modelName: model, // 'deepseek-chat'
-      temperature: temperature,
-      maxTokens: maxTokens,
-      openAIApiKey: apiKey,
-      configuration: {
-        baseURL: deepSeekBaseURL,
-      },
-    });
-    
-    return {
-      llm,
-      systemPrompt,
-    };
+  // Add conversation history
+  for (const msg of conversationHistory) {
+    if (msg.role === 'user' || msg.role === 'human') {
+      messages.push({ role: 'user', content: msg.content });
+    } else if (msg.role === 'assistant' || msg.role === 'ai') {
+      messages.push({ role: 'assistant', content: msg.content });
+    } else if (msg.role === 'system') {
+      messages.push({ role: 'system', content: msg.content });
+    }
   }
 
-  // For OpenAI models, use standard configuration
-  const config = {
-    modelName: model,
-    temperature: temperature,
-    maxTokens: maxTokens,
-    openAIApiKey: apiKey,
-  };
+  // Ensure we have at least one user message
+  if (messages.filter(m => m.role === 'user').length === 0) {
+    messages.push({ role: 'user', content: 'Hello' });
+  }
 
-  const llm = new ChatOpenAI(config);
+  return messages;
+}
+
+/**
+ * Resolves a model through the provider registry and collects everything
+ * an adapter needs to make the call
+ */
+function prepareRequest(model, temperature, maxTokens, systemPrompt, conversationHistory) {
+  const resolved = resolveModel(model);
+  const { provider } = resolved;
+
+  const missingKeyMessage = getMissingKeyMessage(provider);
+  if (missingKeyMessage) {
+    throw new LLMError(ErrorCodes.PROVIDER_KEY_MISSING, missingKeyMessage);
+  }
 
   return {
-    llm,
-    systemPrompt,
+    resolved,
+    adapter: getAdapter(provider),
+    params: {
+      apiKey: getApiKey(provider),
+      baseURL: resolved.baseURL,
+      upstreamModel: resolved.upstreamModel,
+      temperature,
+      maxTokens,
+      messages: buildMessages(systemPrompt, conversationHistory),
+    },
+  };
+}
+
+/**
+ * Wraps a provider SDK error with the provider, model and base URL,
+ * keeping the original status so callers can still classify it. Where to
+ * get a key is only added when the key was refused.
+ */
+function wrapProviderError(apiError, provider, params) {
+  const status = apiError.status || apiError.response?.status || apiError.statusCode;
+  const message = (apiError.message || 'Unknown error').trim().replace(/\.$/, '');
+  const keyHelp = provider.apiKeyEnv && (status === 401 || status === 403) ? ` ${provider.keyHelp}` : '';
+  const wrapped = new Error(
+    `${provider.name} API error: ${message}. ` +
+    `Model: ${params.upstreamModel}${params.baseURL ? `, BaseURL: ${params.baseURL}` : ''}.${keyHelp}`
+  );
+  wrapped.status = status;
+  wrapped.error = apiError.error;
+  wrapped.headers = apiError.headers;
+  wrapped.code = apiError.code;
+  wrapped.provider = provider;
+  return wrapped;
+}
+
+/**
+ * Returns the requested model followed by its fallbacks, without duplicates
+ */
+function getCandidateModels(model, fallbackModels = []) {
+  return [model, ...fallbackModels].filter(
+    (candidate, index, all) => candidate && all.indexOf(candidate) === index
+  );
+}
+
+function logRetry(provider, model) {
+  return ({ error, attempt, delayMs }) => {
+    console.warn(
+      `[LLM Service] ${provider.name} call for ${model} failed (${error.status || error.message}), ` +
+      `retry ${attempt} in ${delayMs}ms`
+    );
   };
 }
 
 /**
  * Generates a response from an LLM given conversation history
+ *
+ * Transient provider errors are retried with backoff. If the model keeps
+ * failing, each model in options.fallbackModels is tried in turn; the
+ * result's `model` says which one produced the reply. Every attempt waits
+ * for a provider slot first; options.onQueued hears about the wait.
  */
 export async function generateResponse(
   model,
   temperature,
   maxTokens,
   systemPrompt,
-  conversationHistory
+  conversationHistory,
+  options = {}
 ) {
-  try {
-    const isDeepSeek = model.toLowerCase().startsWith('deepseek');
-    const isGroq = model.toLowerCase().startsWith('groq-') || model.toLowerCase().includes('llama') || model.toLowerCase().includes('mixtral');
-    console.log(`[LLM Service] Model: ${model}, isDeepSeek: ${isDeepSeek}, isGroq: ${isGroq}`);
-    
-    // For Groq (free tier available), use OpenAI SDK directly
-    if (isGroq) {
-      const apiKey = process.env.GROQ_API_KEY;
-      if (!apiKey) {
-        throw new Error('GROQ_API_KEY is not configured. Please set it in your .env file. Get your free API key at: https://console.groq.com/keys');
-      }
-      
-      const groqBaseURL = process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1';
-      console.log(`[LLM Service] Using Groq with baseURL: ${groqBaseURL}`);
-      const client = new OpenAI({
-        apiKey: apiKey,
-        baseURL: groqBaseURL,
-      });
-      
-      // Build messages array for OpenAI format
-      const messages = [];
-      
-      // Add system message if provided
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      
-      // Add conversation history
-      for (const msg of conversationHistory) {
-        if (msg.role === 'user' || msg.role === 'human') {
-          messages.push({ role: 'user', content: msg.content });
-        } else if (msg.role === 'assistant' || msg.role === 'ai') {
-          messages.push({ role: 'assistant', content: msg.content });
-        } else if (msg.role === 'system') {
-          messages.push({ role: 'system', content: msg.content });
-        }
-      }
-      
-      // Ensure we have at least one user message
-      if (messages.filter(m => m.role === 'user').length === 0) {
-        messages.push({ role: 'user', content: 'Hello' });
-      }
-      
-      // Log messages for debugging
-      console.log(`[LLM Service] Groq messages:`, JSON.stringify(messages.map(m => ({
-        role: m.role,
-        contentLength: m.content?.length || 0,
-        contentPreview: m.content?.substring(0, 50) || 'empty'
-      })), null, 2));
-      
-      // Map model names to Groq's model identifiers
-      let groqModelName = model;
-      if (model.toLowerCase().includes('llama-3.1-8b') || model.toLowerCase() === 'groq-llama-8b') {
-        groqModelName = 'llama-3.1-8b-instant';
-      } else if (model.toLowerCase().includes('llama-3.1-70b') || model.toLowerCase() === 'groq-llama-70b') {
-        groqModelName = 'llama-3.1-70b-versatile';
-      } else if (model.toLowerCase().includes('mixtral') || model.toLowerCase() === 'groq-mixtral') {
-        groqModelName = 'mixtral-8x7b-32768';
-      } else if (model.toLowerCase().includes('gemma')) {
-        groqModelName = 'gemma2-9b-it';
-      }
-      
-      console.log(`[LLM Service] Making Groq API call with model: ${groqModelName}, messages count: ${messages.length}`);
-      
-      try {
-        const completion = await client.chat.completions.create({
-          model: groqModelName,
-          messages: messages,
-          temperature: temperature,
-          max_tokens: maxTokens,
-        });
-        
-        console.log(`[LLM Service] Groq API call successful`);
-        console.log(`[LLM Service] Response structure:`, JSON.stringify({
-          choices: completion.choices?.length,
-          firstChoice: completion.choices?.[0] ? {
-            message: completion.choices[0].message ? {
-              role: completion.choices[0].message.role,
-              contentLength: completion.choices[0].message.content?.length || 0,
-              contentPreview: completion.choices[0].message.content?.substring(0, 100) || 'empty'
-            } : 'no message',
-            finishReason: completion.choices[0].finish_reason
-          } : 'no choices'
-        }, null, 2));
-        
-        // Try multiple ways to extract content
-        let responseContent = completion.choices?.[0]?.message?.content;
-        
-        // If content is empty, try alternative paths
-        if (!responseContent && completion.choices?.[0]) {
-          const choice = completion.choices[0];
-          responseContent = choice.message?.content || 
-                          choice.text || 
-                          choice.content ||
-                          (typeof choice === 'string' ? choice : null);
-        }
-        
-        // If still empty, log the full response for debugging
-        if (!responseContent || responseContent.trim() === '') {
-          console.error(`[LLM Service] Empty response from Groq. Full response:`, JSON.stringify(completion, null, 2));
-          console.error(`[LLM Service] Response type:`, typeof completion);
-          console.error(`[LLM Service] Response keys:`, Object.keys(completion || {}));
-          console.error(`[LLM Service] Messages sent:`, JSON.stringify(messages.map(m => ({
-            role: m.role,
-            contentLength: m.content?.length || 0
-          })), null, 2));
-          
-          // Return a helpful error instead of empty content
-          return {
-            content: `Error: Groq API returned empty response. Please check:\n` +
-                    `1. Your API key is valid\n` +
-                    `2. The model name is correct (${groqModelName})\n` +
-                    `3. Check server logs for detailed error information\n` +
-                    `4. Try reducing max_tokens or adjusting temperature`,
-            success: false,
-            error: 'Empty response from Groq API'
-          };
-        }
-        
-        // Ensure content is not just whitespace
-        const trimmedContent = responseContent.trim();
-        if (trimmedContent === '') {
-          console.error(`[LLM Service] Response content is only whitespace`);
-          return {
-            content: `Error: Response contained only whitespace. Try adjusting parameters.`,
-            success: false,
-            error: 'Whitespace-only response'
-          };
-        }
-        
-        return {
-          content: trimmedContent,
-          success: true,
-        };
-      } catch (apiError) {
-        console.error(`[LLM Service] Groq API call failed:`, apiError);
-        throw new Error(
-          `Groq API error: ${apiError.message || 'Unknown error'}. ` +
-          `Model: ${groqModelName}, BaseURL: ${groqBaseURL}. ` +
-          `Get your free API key at: https://console.groq.com/keys`
-        );
-      }
+  const candidates = getCandidateModels(model, options.fallbackModels);
+  let result;
+
+  for (let i = 0; i < candidates.length; i++) {
+    result = await generateWithModel(
+      candidates[i],
+      temperature,
+      maxTokens,
+      systemPrompt,
+      conversationHistory,
+      options
+    );
+
+    if (result.success) {
+      return { ...result, model: candidates[i] };
     }
-    
-    // For DeepSeek, use OpenAI SDK directly to avoid LangChain validation issues
-    if (isDeepSeek) {
-      const apiKey = process.env.DEEPSEEK_API_KEY;
-      if (!apiKey) {
-        throw new Error('DEEPSEEK_API_KEY is not configured. Please set it in your .env file. Get your API key at: https://platform.deepseek.com/usage');
-      }
-      
-      const deepSeekBaseURL = process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com';
-      console.log(`[LLM Service] Using DeepSeek with baseURL: ${deepSeekBaseURL}`);
-      const client = new OpenAI({
-        apiKey: apiKey,
-        baseURL: deepSeekBaseURL,
-      });
-      
-      // Build messages array for OpenAI format
-      const messages = [];
-      
-      // Add system message if provided
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      
-      // Add conversation history
-      for (const msg of conversationHistory) {
-        if (msg.role === 'user' || msg.role === 'human') {
-          messages.push({ role: 'user', content: msg.content });
-        } else if (msg.role === 'assistant' || msg.role === 'ai') {
-          messages.push({ role: 'assistant', content: msg.content });
-        } else if (msg.role === 'system') {
-          messages.push({ role: 'system', content: msg.content });
-        }
-      }
-      
-      // Ensure we have at least one user message
-      if (messages.filter(m => m.role === 'user').length === 0) {
-        messages.push({ role: 'user', content: 'Hello' });
-      }
-      
-      // Make direct API call to DeepSeek
-      // Use 'deepseek-chat' as the model name (DeepSeek's standard model identifier)
-      const modelName = 'deepseek-chat'; // Always use the standard model name
-      console.log(`[LLM Service] Making DeepSeek API call with model: ${modelName}, messages count: ${messages.length}`);
-      console.log(`[LLM Service] Base URL: ${deepSeekBaseURL}, API Key present: ${!!apiKey}`);
-      
-      try {
-        const completion = await client.chat.completions.create({
-          model: modelName,
-          messages: messages,
-          temperature: temperature,
-          max_tokens: maxTokens,
-        });
-        console.log(`[LLM Service] DeepSeek API call successful`);
-        
-        return {
-          content: completion.choices[0]?.message?.content || 'No response generated',
-          success: true,
-        };
-      } catch (apiError) {
-        console.error(`[LLM Service] DeepSeek API call failed:`, apiError);
-        // Re-throw with more context
-        throw new Error(
-          `DeepSeek API error: ${apiError.message || 'Unknown error'}. ` +
-          `Model: ${modelName}, BaseURL: ${deepSeekBaseURL}. ` +
-          `Please verify your DEEPSEEK_API_KEY is correct.`
-        );
-      }
-      
+    if (options.signal?.aborted) {
+      break;
     }
-    
-    // For OpenAI models, use LangChain
-    // Safety check: ensure we're not accidentally using LangChain for DeepSeek or Groq
-    if (model.toLowerCase().startsWith('deepseek') || model.toLowerCase().startsWith('groq-') || model.toLowerCase().includes('llama') || model.toLowerCase().includes('mixtral')) {
-      throw new Error(`Model detected but not handled correctly. This should not happen. Model: ${model}`);
+    if (i < candidates.length - 1) {
+      console.warn(`[LLM Service] ${candidates[i]} failed (${result.error}), falling back to ${candidates[i + 1]}`);
     }
-    
-    const { llm } = createLLM(model, temperature, maxTokens, systemPrompt);
+  }
+
+  return result;
+}
 
-    // Build messages array
-    const messages = [];
+async function generateWithModel(
+  model,
+  temperature,
+  maxTokens,
+  systemPrompt,
+  conversationHistory,
+  options
+) {
+  let provider;
+  let baseURL;
 
-    // Add system message if provided
-    if (systemPrompt) {
-      messages.push(new SystemMessage(systemPrompt));
+  try {
+    const { resolved, adapter, params } = prepareRequest(
+      model,
+      temperature,
+      maxTokens,
+      systemPrompt,
+      conversationHistory
+    );
+    provider = resolved.provider;
+    baseURL = params.baseURL;
+
+    console.log(`[LLM Service] Model: ${model}, provider: ${provider.id}, upstream: ${params.upstreamModel}`);
+    console.log(`[LLM Service] Making ${provider.name} API call, messages count: ${params.messages.length}`);
+
+    let result;
+    try {
+      result = await withRetry(() => withProviderSlot(
+        provider,
+        { signal: options.signal, onQueued: options.onQueued },
+        () => adapter.generate({ ...params, signal: options.signal })
+      ), {
+        signal: options.signal,
+        onRetry: logRetry(provider, model),
+      });
+    } catch (apiError) {
+      console.error(`[LLM Service] ${provider.name} API call failed:`, apiError);
+      throw wrapProviderError(apiError, provider, params);
     }
 
-    // Add conversation history
-    for (const msg of conversationHistory) {
-      if (msg.role === 'user' || msg.role === 'human') {
-        messages.push(new HumanMessage(msg.content));
-      } else if (msg.role === 'assistant' || msg.role === 'ai') {
-        messages.push(new AIMessage(msg.content));
-      } else if (msg.role === 'system') {
-        messages.push(new SystemMessage(msg.content));
-      }
+    console.log(`[LLM Service] ${provider.name} API call successful`);
+
+    // Ensure content is not empty or just whitespace
+    const trimmedContent = (result.content || '').trim();
+    if (trimmedContent === '') {
+      console.error(`[LLM Service] Empty response from ${provider.name}. Finish reason: ${result.finishReason}`);
+      return {
+        content: `Error: ${provider.name} API returned empty response. Please check:\n` +
+                `1. Your API key is valid\n` +
+                `2. The model name is correct (${params.upstreamModel})\n` +
+                `3. Check server logs for detailed error information\n` +
+                `4. Try reducing max_tokens or adjusting temperature`,
+        success: false,
+        error: `Empty response from ${provider.name} API`,
+        code: ErrorCodes.EMPTY_RESPONSE,
+      };
     }
 
-    // Generate response
-    const response = await llm.invoke(messages);
-    
+    const usage = normalizeUsage(result.usage, params.messages, trimmedContent);
+
     return {
-      content: response.content,
+      content: trimmedContent,
       success: true,
+      usage,
+      cost: calculateCost(resolved, usage),
     };
   } catch (error) {
     console.error('[LLM Service] Error generating LLM response:', error);
@@ -325,46 +223,42 @@ export async function generateResponse(
       response: error.response?.data,
       model: model
     });
-    
-    // Provide more helpful error messages for DeepSeek
+
     let errorMessage = error.message || 'Failed to generate response';
-    
-    // Check for OpenAI SDK error format
-    const errorStatus = error.status || error.response?.status || error.statusCode;
-    const errorData = error.response?.data || error.error || {};
-    
-    if (errorStatus === 404 || errorMessage.includes('does not exist') || errorMessage.includes('MODEL_NOT_FOUND') || errorData.code === 'model_not_found') {
-      const isDeepSeek = model.toLowerCase().startsWith('deepseek');
-      if (isDeepSeek) {
-        errorMessage = `DeepSeek model "${model}" not found (404). Please verify:\n` +
-          `1. DEEPSEEK_API_KEY is set correctly in your .env file\n` +
-          `2. The model name is correct (should be "deepseek-chat")\n` +
-          `3. Your API key has access to this model\n` +
-          `4. The base URL is correct (https://api.deepseek.com)\n\n` +
-          `Get your API key at: https://platform.deepseek.com/usage`;
-      }
-    } else if (errorStatus === 401 || errorMessage.includes('Unauthorized') || errorMessage.includes('Invalid API key') || errorData.code === 'invalid_api_key') {
-      const isDeepSeek = model.toLowerCase().startsWith('deepseek');
-      if (isDeepSeek) {
-        errorMessage = `Invalid DeepSeek API key (401). Please check your DEEPSEEK_API_KEY in the .env file.\n\n` +
-          `Get your API key at: https://platform.deepseek.com/usage`;
-      }
+    const code = getErrorCode(error);
+
+    // Provide more helpful error messages for missing models and bad keys
+    if (provider?.apiKeyEnv && code === ErrorCodes.MODEL_NOT_FOUND) {
+      errorMessage = `${provider.name} model "${model}" not found (404). Please verify:\n` +
+        `1. ${provider.apiKeyEnv} is set correctly in your .env file\n` +
+        `2. The model name is correct\n` +
+        `3. Your API key has access to this model\n` +
+        `4. The base URL is correct (${baseURL})\n\n` +
+        `${provider.keyHelp}`;
+    } else if (provider?.apiKeyEnv && code === ErrorCodes.PROVIDER_AUTH_FAILED) {
+      errorMessage = `Invalid ${provider.name} API key (401). Please check your ${provider.apiKeyEnv} in the .env file.\n\n` +
+        `${provider.keyHelp}`;
     }
-    
+
     return {
       content: `Error: ${errorMessage}`,
       success: false,
       error: errorMessage,
+      code,
     };
   }
 }
 
-/**
- * Formats conversation history for Langchain
- * Converts our message format to Langchain message format
- */
 /**
  * Generates a streaming response from an LLM
+ *
+ * Pass options.signal to abort the upstream provider stream, including
+ * while it is waiting for a provider slot (see options.onQueued). Retries and
+ * options.fallbackModels work as in generateResponse, but only until the
+ * first chunk has been sent - a reply is never restarted halfway through.
+ * Resolves with the model that produced the reply, its token usage and cost;
+ * a stream that ends without any text rejects with EMPTY_RESPONSE, like
+ * generateResponse.
  */
 export async function generateStreamingResponse(
   model,
@@ -372,123 +266,67 @@ export async function generateStreamingResponse(
   maxTokens,
   systemPrompt,
   conversationHistory,
-  onChunk
+  onChunk,
+  options = {}
 ) {
-  try {
-    const isDeepSeek = model.toLowerCase().startsWith('deepseek');
-    const isGroq = model.toLowerCase().startsWith('groq-') || model.toLowerCase().includes('llama') || model.toLowerCase().includes('mixtral');
-    
-    if (isGroq) {
-      const apiKey = process.env.GROQ_API_KEY;
-      if (!apiKey) {
-        throw new Error('GROQ_API_KEY is not configured.');
-      }
-      
-      const groqBaseURL = process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1';
-      const client = new OpenAI({
-        apiKey: apiKey,
-        baseURL: groqBaseURL,
-      });
-      
-      // Build messages array
-      const messages = [];
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      for (const msg of conversationHistory) {
-        if (msg.role === 'user' || msg.role === 'human') {
-          messages.push({ role: 'user', content: msg.content });
-        } else if (msg.role === 'assistant' || msg.role === 'ai') {
-          messages.push({ role: 'assistant', content: msg.content });
-        } else if (msg.role === 'system') {
-          messages.push({ role: 'system', content: msg.content });
-        }
-      }
-      
-      if (messages.filter(m => m.role === 'user').length === 0) {
-        messages.push({ role: 'user', content: 'Hello' });
-      }
-      
-      // Map model names
-      let groqModelName = model;
-      if (model.toLowerCase().includes('llama-3.1-8b') || model.toLowerCase() === 'groq-llama-8b') {
-        groqModelName = 'llama-3.1-8b-instant';
-      } else if (model.toLowerCase().includes('llama-3.1-70b') || model.toLowerCase() === 'groq-llama-70b') {
-        groqModelName = 'llama-3.1-70b-versatile';
-      } else if (model.toLowerCase().includes('mixtral') || model.toLowerCase() === 'groq-mixtral') {
-        groqModelName = 'mixtral-8x7b-32768';
-      } else if (model.toLowerCase().includes('gemma')) {
-        groqModelName = 'gemma2-9b-it';
-      }
-      
-      // Stream response
-      const stream = await client.chat.completions.create({
-        model: groqModelName,
-        messages: messages,
-        temperature: temperature,
-        max_tokens: maxTokens,
-        stream: true,
-      });
-      
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        if (content) {
-          onChunk(content);
-        }
-      }
-    } else if (isDeepSeek) {
-      const apiKey = process.env.DEEPSEEK_API_KEY;
-      if (!apiKey) {
-        throw new Error('DEEPSEEK_API_KEY is not configured.');
+  const candidates = getCandidateModels(model, options.fallbackModels);
+  let hasOutput = false;
+  let content = '';
+  const forwardChunk = (chunk) => {
+    hasOutput = true;
+    content += chunk;
+    onChunk(chunk);
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    const candidate = candidates[i];
+
+    try {
+      const { resolved, adapter, params } = prepareRequest(
+        candidate,
+        temperature,
+        maxTokens,
+        systemPrompt,
+        conversationHistory
+      );
+      const { provider } = resolved;
+
+      if (!resolved.capabilities.streaming || !adapter.stream) {
+        throw new Error(`Streaming not yet implemented for ${provider.name} models`);
       }
-      
-      const deepSeekBaseURL = process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com';
-      const client = new OpenAI({
-        apiKey: apiKey,
-        baseURL: deepSeekBaseURL,
+
+      const result = await withRetry(() => withProviderSlot(
+        provider,
+        { signal: options.signal, onQueued: options.onQueued },
+        () => adapter.stream({ ...params, signal: options.signal }, forwardChunk)
+      ), {
+        signal: options.signal,
+        shouldRetry: () => !hasOutput,
+        onRetry: logRetry(provider, candidate),
       });
-      
-      // Build messages array
-      const messages = [];
-      if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-      }
-      for (const msg of conversationHistory) {
-        if (msg.role === 'user' || msg.role === 'human') {
-          messages.push({ role: 'user', content: msg.content });
-        } else if (msg.role === 'assistant' || msg.role === 'ai') {
-          messages.push({ role: 'assistant', content: msg.content });
-        } else if (msg.role === 'system') {
-          messages.push({ role: 'system', content: msg.content });
-        }
+
+      if (!content.trim()) {
+        throw new LLMError(ErrorCodes.EMPTY_RESPONSE, `Empty response from ${provider.name} API`);
       }
-      
-      if (messages.filter(m => m.role === 'user').length === 0) {
-        messages.push({ role: 'user', content: 'Hello' });
+
+      const usage = normalizeUsage(result?.usage, params.messages, content);
+      return {
+        model: candidate,
+        usage,
+        cost: calculateCost(resolved, usage),
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        console.log(`[LLM Service] Stream for ${candidate} aborted`);
+        throw error;
       }
-      
-      // Stream response
-      const stream = await client.chat.completions.create({
-        model: 'deepseek-chat',
-        messages: messages,
-        temperature: temperature,
-        max_tokens: maxTokens,
-        stream: true,
-      });
-      
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        if (content) {
-          onChunk(content);
-        }
+
+      console.error('Error in generateStreamingResponse:', error);
+      if (hasOutput || i === candidates.length - 1) {
+        throw error;
       }
-    } else {
-      // For OpenAI, use LangChain streaming (if supported)
-      throw new Error('Streaming not yet implemented for OpenAI models');
+      console.warn(`[LLM Service] ${candidate} failed (${error.message}), falling back to ${candidates[i + 1]}`);
     }
-  } catch (error) {
-    console.error('Error in generateStreamingResponse:', error);
-    throw error;
   }
 }
 
@@ -498,4 +336,3 @@ export function formatConversationHistory(messages) {
     content: msg.content,
   }));
 }
-
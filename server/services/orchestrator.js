@@ -0,0 +1,1071 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { generateStreamingResponse } from './llmService.js';
+import { buildParticipantHistory, buildSystemPrompt } from './conversationHistory.js';
+import { LLMError, ErrorCodes, toErrorBody } from './errors.js';
+import { scoreTurn, decideVerdict } from './judge.js';
+import { checkStopConditions, getStopInstructions } from './stopConditions.js';
+import { needsSummary, summarizeConversation } from './summarizer.js';
+import { fitContext, countPromptTokens, calibrate } from './contextBudget.js';
+import { sleep } from './sleep.js';
+import { saveConversation, loadConversation, loadAllConversations, deleteConversation } from './conversationStore.js';
+
+/**
+ * Server-side conversation runs
+ *
+ * A run owns the transcript and the turn-taking that used to live in the
+ * browser, so a conversation keeps going when no tab is open. With autoPlay
+ * on, a started run plays turns back to back (waiting delayMs in between)
+ * until one of its stop conditions is met (see services/stopConditions.js),
+ * and the rule that ended it is kept as stopReason; otherwise each turn is
+ * requested with playTurn.
+ *
+ * A run has two or more participants, each with its own model settings.
+ * Turns go round-robin in the participants' order, or follow a custom
+ * speakingOrder of participant ids that may list someone more than once.
+ *
+ * Every change is published to the run's subscribers as an event object
+ * with a `type`; turn events also carry the `speaker` (a participant id):
+ *   snapshot    { run }                       full state, sent on subscribe
+ *   status      { run, reason? }              status, turn or settings changed;
+ *                                             reason is error or stop_condition
+ *   turn_start  { speaker, messageId, model, context, run }  context: token budget
+ *   queued      { speaker, queued, position?, waitingFor? }
+ *   chunk       { speaker, messageId, content }
+ *   turn_end    { speaker, message, run }     message.interrupted if paused mid-reply
+ *   error       { speaker, error, code, run }
+ *   moderator_message { message, run }        a human interjection
+ *   transcript  { messages, run }             messages were edited, deleted or
+ *                                             regenerated
+ *   turn_scored { speaker, messageId, score }  judge's scores for a turn
+ *   verdict     { verdict, run }              judge's final decision
+ *   judge_error { messageId?, error, code }   scoring or verdict failed
+ *   summary     { summary }                  summary memory was updated
+ *   summary_error { error, code }            updating the summary failed
+ *
+ * Moderator messages are written by the human, not a participant: they have
+ * a null speaker, `moderator: true` and the name "Moderator", and do not
+ * count as turns.
+ *
+ * With a judge configured, every completed turn is scored in the background
+ * (see services/judge.js) and a verdict is given when auto-play finishes, or
+ * on request with requestVerdict.
+ *
+ * With a summarizer configured, older messages are folded into a running
+ * summary before a turn (see services/summarizer.js); the summary stays on
+ * the run as `summary` so it can be inspected.
+ *
+ * Every message has a stable id and a parentId, the message before it (null
+ * for the first). forkRun branches a new run off any message: the branch
+ * starts with a copy of the transcript up to that message, ids included, and
+ * its own copy of the settings. Runs forked from one another share a rootId,
+ * the conversation's first run, and getBranches lists them as a tree.
+ *
+ * While nothing is playing, messages can be edited, deleted from a point on,
+ * or regenerated. A regenerated reply keeps its id and its earlier versions
+ * in `versions`, each with the messages that followed it, so selectVersion
+ * can switch back; the message's own fields are those of `activeVersion`.
+ *
+ * Every run is saved as a conversation (see services/conversationStore.js)
+ * shortly after each change, so it outlives the server. Only MAX_RUNS stay
+ * in memory: the oldest inactive ones are dropped and loaded again from
+ * storage when asked for, paused if they were playing when the server
+ * stopped.
+ */
+
+const MAX_RUNS = 100;
+
+// Changes are batched into one write per run at most this often
+const SAVE_DELAY_MS = 500;
+
+const MODERATOR_NAME = 'Moderator';
+
+const runs = new Map();
+
+/**
+ * Participant ids in speaking order, for one cycle of turns
+ */
+function getOrder(run) {
+  return run.turnOrder === 'custom' ? run.speakingOrder : run.participants.map((p) => p.id);
+}
+
+function getParticipant(run, id) {
+  const participant = run.participants.find((p) => p.id === id);
+  if (!participant) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Unknown participant "${id}"`);
+  }
+  return participant;
+}
+
+/**
+ * Checks that a custom speaking order only names participants of the run
+ */
+function checkSpeakingOrder(participants, turnOrder, speakingOrder) {
+  if (turnOrder !== 'custom') {
+    return;
+  }
+  if (speakingOrder.length === 0) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, 'A custom speaking order needs at least one participant');
+  }
+  const unknown = speakingOrder.filter((id) => !participants.some((p) => p.id === id));
+  if (unknown.length > 0) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Speaking order names unknown participants: ${[...new Set(unknown)].join(', ')}`);
+  }
+}
+
+/**
+ * Moves the turn on past `speaker`'s next slot in the order, so a custom
+ * order that lists someone twice keeps its place. A speaker who is not in
+ * the order (a manual turn) leaves it where it was.
+ */
+function advanceTurn(run, speaker) {
+  const order = getOrder(run);
+  for (let step = 0; step < order.length; step++) {
+    const index = (run.turnIndex + step) % order.length;
+    if (order[index] === speaker) {
+      run.turnIndex = (index + 1) % order.length;
+      break;
+    }
+  }
+  run.currentTurn = order[run.turnIndex];
+}
+
+/**
+ * Points the turn at `speaker`'s first slot, or the start of the order
+ */
+function resetTurn(run, speaker) {
+  const order = getOrder(run);
+  run.turnIndex = Math.max(0, order.indexOf(speaker));
+  run.currentTurn = order[run.turnIndex];
+}
+
+/**
+ * Everything about a run except its transcript
+ */
+function summarize(run) {
+  return {
+    id: run.id,
+    title: run.title,
+    rootId: run.rootId,
+    forkedFrom: run.forkedFrom,
+    branchName: run.branchName,
+    topic: run.topic,
+    status: run.status,
+    autoPlay: run.autoPlay,
+    delayMs: run.delayMs,
+    maxTurns: run.maxTurns,
+    turnOrder: run.turnOrder,
+    speakingOrder: run.speakingOrder,
+    currentTurn: run.currentTurn,
+    turnCount: run.turnCount,
+    activeSpeaker: run.activeTurn?.speaker || null,
+    participants: run.participants,
+    stopConditions: run.stopConditions,
+    stopReason: run.stopReason,
+    summarizer: run.summarizer,
+    summary: run.summary,
+    judge: run.judge,
+    verdict: run.verdict,
+    verdictPending: run.verdictPending,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+  };
+}
+
+/**
+ * The full run: summary, transcript and the reply being streamed, if any
+ */
+export function getSnapshot(run) {
+  return {
+    ...summarize(run),
+    messages: run.messages,
+    streamingMessage: run.activeTurn?.message || null,
+  };
+}
+
+/**
+ * The run as stored: its settings, transcript and turn state
+ */
+export function getRecord(run) {
+  return { ...summarize(run), turnIndex: run.turnIndex, messages: run.messages };
+}
+
+function scheduleSave(run) {
+  if (run.deleted || run.saveTimer) {
+    return;
+  }
+  run.saveTimer = setTimeout(() => {
+    run.saveTimer = null;
+    if (run.deleted) {
+      return;
+    }
+    saveConversation(getRecord(run)).catch((error) => {
+      console.error(`[Orchestrator] Could not save run ${run.id}:`, error.message);
+    });
+  }, SAVE_DELAY_MS);
+}
+
+function emit(run, event) {
+  run.updatedAt = new Date().toISOString();
+  run.events.emit('event', event);
+  // A streaming reply is saved once it is part of the transcript
+  if (event.type !== 'chunk' && event.type !== 'queued') {
+    scheduleSave(run);
+  }
+}
+
+function emitStatus(run, extra = {}) {
+  emit(run, { type: 'status', ...extra, run: summarize(run) });
+}
+
+function pruneRuns() {
+  if (runs.size <= MAX_RUNS) {
+    return;
+  }
+  for (const [id, run] of runs) {
+    if (runs.size <= MAX_RUNS) {
+      break;
+    }
+    if (run.status !== 'running' && !run.activeTurn && run.events.listenerCount('event') === 0) {
+      runs.delete(id);
+    }
+  }
+}
+
+export function createRun(config) {
+  checkSpeakingOrder(config.participants, config.turnOrder, config.speakingOrder);
+  const now = new Date().toISOString();
+  const id = randomUUID();
+  const run = {
+    id,
+    title: config.title,
+    rootId: id,
+    forkedFrom: null, // { runId, messageId, position, name } for a branch
+    branchName: 'Main',
+    topic: config.topic,
+    status: 'idle',
+    autoPlay: config.autoPlay,
+    delayMs: config.delayMs,
+    maxTurns: config.maxTurns,
+    stopConditions: config.stopConditions,
+    stopReason: null, // { rule, detail, messageId?, createdAt } once a stop condition ends the run
+    summarizer: config.summarizer,
+    summary: null,
+    turnOrder: config.turnOrder,
+    speakingOrder: config.speakingOrder,
+    turnIndex: 0,
+    currentTurn: null,
+    turnCount: 0,
+    participants: config.participants,
+    judge: config.judge,
+    verdict: null,
+    verdictPending: false,
+    scoring: new Set(), // Scoring requests in flight
+    judging: new AbortController(), // Cancels the judge's requests once the run is deleted
+    messages: [],
+    activeTurn: null,
+    loop: null,
+    saveTimer: null,
+    deleted: false,
+    createdAt: now,
+    updatedAt: now,
+    events: new EventEmitter().setMaxListeners(0),
+  };
+  if (config.startingSpeaker) {
+    getParticipant(run, config.startingSpeaker);
+  }
+  resetTurn(run, config.startingSpeaker);
+  runs.set(run.id, run);
+  pruneRuns();
+  scheduleSave(run);
+  return run;
+}
+
+/**
+ * Checks that a transcript to save only has messages from `participants`
+ * (or the moderator) and no id twice
+ */
+function checkMessages(participants, messages) {
+  const ids = new Set();
+  for (const msg of messages) {
+    if (msg.moderator ? msg.speaker !== null : !participants.some((p) => p.id === msg.speaker)) {
+      throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Message speaker "${msg.speaker}" is not a participant`);
+    }
+    if (msg.id && ids.has(msg.id)) {
+      throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Duplicate message id "${msg.id}"`);
+    }
+    ids.add(msg.id);
+  }
+}
+
+/**
+ * Sets the run's transcript; messages get ids where they have none and are
+ * linked in order
+ */
+function setMessages(run, messages) {
+  run.messages = [];
+  for (const msg of messages) {
+    appendMessage(run, {
+      ...msg,
+      id: msg.id ?? randomUUID(),
+      name: msg.moderator ? MODERATOR_NAME : msg.name,
+      createdAt: msg.createdAt ?? run.createdAt,
+    });
+  }
+}
+
+/**
+ * Creates a run that already has a transcript, e.g. a conversation saved
+ * elsewhere
+ */
+export function createConversation(config) {
+  const { messages, ...settings } = config;
+  checkMessages(settings.participants, messages);
+  const run = createRun(settings);
+  setMessages(run, messages);
+  syncTurns(run);
+  return run;
+}
+
+/**
+ * Rebuilds a run from its stored record. A run that was playing when the
+ * server stopped comes back paused.
+ */
+function restoreRun(record) {
+  const { activeSpeaker, verdictPending, ...saved } = record;
+  const run = {
+    ...saved,
+    status: saved.status === 'running' ? 'paused' : saved.status,
+    verdictPending: false,
+    scoring: new Set(),
+    judging: new AbortController(),
+    activeTurn: null,
+    loop: null,
+    saveTimer: null,
+    deleted: false,
+    events: new EventEmitter().setMaxListeners(0),
+  };
+  runs.set(run.id, run);
+  pruneRuns();
+  return run;
+}
+
+/**
+ * Finds a run in memory, or loads it from storage
+ */
+export async function getRun(id) {
+  let run = runs.get(id);
+  if (!run) {
+    const record = await loadConversation(id);
+    if (!record) {
+      throw new LLMError(ErrorCodes.RUN_NOT_FOUND, `Run "${id}" not found`);
+    }
+    // Another request may have loaded it meanwhile
+    run = runs.get(id) ?? restoreRun(record);
+  }
+  return run;
+}
+
+/**
+ * Stops a run and deletes it from memory and storage
+ */
+export async function deleteRun(id) {
+  const run = runs.get(id);
+  if (run) {
+    run.deleted = true;
+    clearTimeout(run.saveTimer);
+    run.loop?.abort();
+    run.activeTurn?.controller.abort();
+    run.judging.abort();
+    runs.delete(id);
+  }
+  if (!(await deleteConversation(id)) && !run) {
+    throw new LLMError(ErrorCodes.RUN_NOT_FOUND, `Run "${id}" not found`);
+  }
+}
+
+export function listRuns() {
+  return [...runs.values()].map(summarize);
+}
+
+/**
+ * Every stored conversation without its transcript, most recently updated
+ * first. Runs in memory are listed as they are now, even before their
+ * latest changes are saved.
+ */
+export async function listConversations() {
+  const records = new Map();
+  for (const record of await loadAllConversations()) {
+    // As it would be restored
+    records.set(record.id, { ...record, status: record.status === 'running' ? 'paused' : record.status });
+  }
+  for (const run of runs.values()) {
+    if (!run.deleted) {
+      records.set(run.id, getRecord(run));
+    }
+  }
+  return [...records.values()]
+    .map(({ messages, turnIndex, ...summary }) => ({ ...summary, messageCount: messages.length }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Every run in the same conversation tree as `run`, oldest first. A branch
+ * whose parent was deleted still points at it by forkedFrom.runId.
+ */
+export async function getBranches(run) {
+  const conversations = await listConversations();
+  return conversations
+    .filter((other) => other.rootId === run.rootId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * "Branch n" after the highest number in the conversation tree, counting
+ * saved branches that aren't loaded, so names aren't reused after a restart
+ * or once a branch was deleted
+ */
+async function getNextBranchName(run) {
+  const names = (await getBranches(run)).map((branch) => branch.branchName);
+  // Forks made while the list was loading
+  for (const other of runs.values()) {
+    if (other.rootId === run.rootId) {
+      names.push(other.branchName);
+    }
+  }
+  const numbers = names.map((name) => Number(/^Branch (\d+)$/.exec(name)?.[1] ?? 0));
+  return `Branch ${Math.max(0, ...numbers) + 1}`;
+}
+
+/**
+ * Starts a new branch of the conversation from `messageId`: a run with the
+ * transcript up to and including that message and the same settings, which
+ * then change independently. The branch is idle, with the turn at whoever
+ * would have spoken after that message.
+ */
+export async function forkRun(source, messageId) {
+  const index = source.messages.findIndex((msg) => msg.id === messageId);
+  if (index === -1) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Message "${messageId}" is not in this run's transcript`);
+  }
+  const branchName = await getNextBranchName(source);
+  const messages = structuredClone(source.messages.slice(0, index + 1));
+  const forkPoint = messages[index];
+
+  const run = createRun(structuredClone({
+    topic: source.topic,
+    participants: source.participants,
+    turnOrder: source.turnOrder,
+    speakingOrder: source.speakingOrder,
+    autoPlay: source.autoPlay,
+    delayMs: source.delayMs,
+    maxTurns: source.maxTurns,
+    stopConditions: source.stopConditions,
+    summarizer: source.summarizer,
+    judge: source.judge,
+  }));
+  run.rootId = source.rootId;
+  run.forkedFrom = { runId: source.id, messageId, position: index + 1, name: forkPoint.name };
+  run.branchName = branchName;
+  run.messages = messages;
+  // Keep the summary only if it covers nothing past the fork
+  if (source.summary && source.summary.coveredCount <= messages.length) {
+    run.summary = structuredClone(source.summary);
+  }
+  syncTurns(run);
+  return run;
+}
+
+/**
+ * Calls `listener` with every event of the run; returns an unsubscribe function
+ */
+export function subscribe(run, listener) {
+  run.events.on('event', listener);
+  listener({ type: 'snapshot', run: getSnapshot(run) });
+  return () => run.events.off('event', listener);
+}
+
+/**
+ * Recounts the completed turns and gives the turn to whoever speaks after the
+ * last message, once the transcript was copied or changed
+ */
+function syncTurns(run) {
+  run.turnCount = run.messages.filter((msg) => !msg.moderator && !msg.interrupted).length;
+  const lastTurn = [...run.messages].reverse().find((msg) => !msg.moderator);
+  if (!lastTurn || !getOrder(run).includes(lastTurn.speaker)) {
+    resetTurn(run);
+    return;
+  }
+  resetTurn(run, lastTurn.speaker);
+  // An interrupted reply is played again, as it would be on resume
+  if (!lastTurn.interrupted) {
+    advanceTurn(run, lastTurn.speaker);
+  }
+}
+
+/**
+ * Adds a finished or interrupted message to the transcript, linked to the
+ * message before it
+ */
+function appendMessage(run, message) {
+  message.parentId = run.messages.at(-1)?.id ?? null;
+  run.messages.push(message);
+}
+
+function assertNotStopped(run) {
+  if (run.status === 'stopped') {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'This run has been stopped');
+  }
+}
+
+/**
+ * Changing the transcript must wait until no turn is playing or about to
+ */
+function assertNotPlaying(run) {
+  assertNotStopped(run);
+  if (run.activeTurn || run.loop) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'Pause the conversation before changing its messages');
+  }
+}
+
+function findMessageIndex(run, messageId) {
+  const index = run.messages.findIndex((msg) => msg.id === messageId);
+  if (index === -1) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Message "${messageId}" is not in this run's transcript`);
+  }
+  return index;
+}
+
+// Fields that differ between versions of a regenerated message
+const VERSION_FIELDS = ['content', 'createdAt', 'model', 'parameters', 'fallbackFrom', 'usage', 'cost', 'context', 'score', 'interrupted', 'edited'];
+
+/**
+ * One version of a message; `following` holds the messages after it while
+ * another version is shown
+ */
+function toVersion(message, following) {
+  const version = {};
+  for (const field of VERSION_FIELDS) {
+    if (message[field] !== undefined) {
+      version[field] = message[field];
+    }
+  }
+  if (following) {
+    version.following = following;
+  }
+  return version;
+}
+
+/**
+ * Makes `message` the newest version of the reply it regenerates, keeping
+ * the earlier ones with the messages that followed them
+ */
+function addVersion(message, { message: previous, following }) {
+  const versions = previous.versions ? [...previous.versions] : [];
+  versions[previous.activeVersion ?? 0] = toVersion(previous, following);
+  message.versions = [...versions, toVersion(message)];
+  message.activeVersion = versions.length;
+}
+
+/**
+ * Drops what no longer matches the transcript after a change at `index`:
+ * a summary reaching past it, the verdict and the stop reason
+ */
+function transcriptChanged(run, index) {
+  if (run.summary && run.summary.coveredCount > index) {
+    run.summary = null;
+  }
+  run.verdict = null;
+  run.stopReason = null;
+  if (run.status === 'finished') {
+    run.status = 'paused';
+  }
+  syncTurns(run);
+  emit(run, { type: 'transcript', messages: run.messages, run: summarize(run) });
+}
+
+/**
+ * Brings the summary memory up to date before a turn, covering at least the
+ * messages before `coveredCount` when given. A failed update is reported and
+ * the turn goes ahead with the summary it had.
+ */
+async function refreshSummary(run, signal, coveredCount) {
+  if (coveredCount === undefined && !needsSummary(run)) {
+    return;
+  }
+  try {
+    run.summary = await summarizeConversation(run.summarizer, run, signal, coveredCount);
+    emit(run, { type: 'summary', summary: run.summary });
+  } catch (error) {
+    if (signal.aborted) {
+      throw error;
+    }
+    console.error(`[Orchestrator] Could not update the summary of run ${run.id}:`, error.message);
+    emit(run, { type: 'summary_error', ...toErrorBody(error) });
+  }
+}
+
+/**
+ * System prompt for the participant and the part of the transcript that
+ * fits their context next to it
+ */
+function prepareContext(run, config) {
+  const summary = run.summarizer ? run.summary : null;
+  const systemPrompt = [buildSystemPrompt(config, run.participants, summary), getStopInstructions(run.stopConditions)]
+    .filter(Boolean)
+    .join('\n\n');
+  return { systemPrompt, fit: fitContext(config, systemPrompt, run.messages, summary?.coveredCount ?? 0) };
+}
+
+/**
+ * Generates one reply from `speaker`, streaming it to subscribers.
+ * Resolves with the message when the turn completed and the floor passed to
+ * the next speaker, or null.
+ *
+ * When regenerating, `replacing` holds the reply being replaced, the
+ * messages that followed it and any settings overridden for this turn.
+ */
+async function playTurnNow(run, speaker, replacing = null) {
+  const config = { ...getParticipant(run, speaker), ...replacing?.overrides };
+  const controller = new AbortController();
+  const message = {
+    id: replacing?.message.id ?? randomUUID(),
+    speaker,
+    name: config.name,
+    content: '',
+    createdAt: new Date().toISOString(),
+    model: config.model,
+  };
+  run.activeTurn = { speaker, controller, message };
+
+  try {
+    await refreshSummary(run, controller.signal);
+    let { systemPrompt, fit } = prepareContext(run, config);
+    if (fit.context.trimmed > 0 && run.summarizer) {
+      // Summarise what doesn't fit rather than drop it
+      await refreshSummary(run, controller.signal, fit.start);
+      ({ systemPrompt, fit } = prepareContext(run, config));
+    }
+    const history = buildParticipantHistory(run.messages, speaker, run.topic, fit.start);
+    message.context = fit.context;
+    message.parameters = { temperature: config.temperature, maxTokens: fit.maxTokens };
+    emit(run, {
+      type: 'turn_start',
+      speaker,
+      messageId: message.id,
+      model: config.model,
+      context: fit.context,
+      run: summarize(run),
+    });
+
+    const result = await generateStreamingResponse(
+      config.model,
+      config.temperature,
+      fit.maxTokens,
+      systemPrompt,
+      history,
+      (chunk) => {
+        message.content += chunk;
+        emit(run, { type: 'chunk', speaker, messageId: message.id, content: chunk });
+      },
+      {
+        signal: controller.signal,
+        fallbackModels: config.fallbackModels,
+        onQueued: ({ position, waitingFor }) => {
+          emit(run, position > 0
+            ? { type: 'queued', speaker, queued: true, position, waitingFor }
+            : { type: 'queued', speaker, queued: false });
+        },
+      }
+    );
+
+    message.model = result.model;
+    if (result.model !== config.model) {
+      message.fallbackFrom = config.model;
+    }
+    message.usage = result.usage;
+    message.cost = result.cost;
+    if (!result.usage.estimated) {
+      calibrate(result.model, countPromptTokens(systemPrompt, history), result.usage.promptTokens);
+    }
+
+    run.activeTurn = null;
+    if (replacing) {
+      addVersion(message, replacing);
+    }
+    appendMessage(run, message);
+    run.turnCount++;
+    advanceTurn(run, speaker);
+    emit(run, { type: 'turn_end', speaker, message, run: summarize(run) });
+    if (run.judge) {
+      scoreMessage(run, message);
+    }
+    return message;
+  } catch (error) {
+    run.activeTurn = null;
+
+    if (controller.signal.aborted) {
+      // Keep a partial reply; the same participant speaks again on resume
+      if (message.content.trim()) {
+        message.interrupted = true;
+        if (replacing) {
+          addVersion(message, replacing);
+        }
+        appendMessage(run, message);
+      }
+      emit(run, { type: 'turn_end', speaker, message: message.content.trim() ? message : null, run: summarize(run) });
+      return null;
+    }
+
+    console.error(`[Orchestrator] Turn for ${speaker} in run ${run.id} failed:`, error.message);
+    emit(run, { type: 'error', speaker, ...toErrorBody(error), run: summarize(run) });
+    return null;
+  }
+}
+
+/**
+ * Has the judge score a completed turn, without holding up the conversation
+ */
+function scoreMessage(run, message) {
+  const { signal } = run.judging;
+  const task = scoreTurn(run.judge, run, message, signal)
+    .then((score) => {
+      message.score = score;
+      emit(run, { type: 'turn_scored', speaker: message.speaker, messageId: message.id, score });
+    })
+    .catch((error) => {
+      if (signal.aborted) {
+        return;
+      }
+      console.error(`[Orchestrator] Judge could not score message ${message.id} in run ${run.id}:`, error.message);
+      emit(run, { type: 'judge_error', messageId: message.id, ...toErrorBody(error) });
+    })
+    .finally(() => run.scoring.delete(task));
+  run.scoring.add(task);
+}
+
+/**
+ * Asks the judge for a verdict on the conversation so far. Resolves once the
+ * verdict (or a judge_error) has been published.
+ */
+export function requestVerdict(run) {
+  if (!run.judge) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'This run has no judge');
+  }
+  if (run.verdictPending) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'The judge is already deciding');
+  }
+  if (!run.messages.some((msg) => !msg.moderator)) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'There is nothing to judge yet');
+  }
+
+  run.verdictPending = true;
+  emitStatus(run);
+
+  // Let scores still in flight count towards the verdict
+  return Promise.allSettled([...run.scoring])
+    .then(() => decideVerdict(run.judge, run, run.judging.signal))
+    .then((verdict) => {
+      run.verdict = verdict;
+      run.verdictPending = false;
+      emit(run, { type: 'verdict', verdict, run: summarize(run) });
+    })
+    .catch((error) => {
+      run.verdictPending = false;
+      if (run.judging.signal.aborted) {
+        return;
+      }
+      console.error(`[Orchestrator] Judge could not decide run ${run.id}:`, error.message);
+      emit(run, { type: 'judge_error', ...toErrorBody(error) });
+      emitStatus(run);
+    });
+}
+
+/**
+ * Finishes the run if a stop condition is met, after `message` if given.
+ * Returns true when it did.
+ */
+function finishIfStopped(run, message = null) {
+  const stop = checkStopConditions(run, message);
+  if (!stop) {
+    return false;
+  }
+  run.status = 'finished';
+  run.stopReason = { ...stop, createdAt: new Date().toISOString() };
+  emitStatus(run, { reason: 'stop_condition' });
+  // Skip the verdict when nothing has been said since the last one
+  if (run.judge && !run.verdictPending && run.verdict?.turnCount !== run.turnCount) {
+    requestVerdict(run);
+  }
+  return true;
+}
+
+/**
+ * Plays turns while the run is running with autoPlay on
+ */
+async function playLoop(run) {
+  if (run.loop || run.activeTurn) {
+    return;
+  }
+  const loop = new AbortController();
+  run.loop = loop;
+  const { signal } = loop;
+
+  try {
+    while (run.status === 'running' && run.autoPlay && !signal.aborted) {
+      if (finishIfStopped(run)) {
+        break;
+      }
+
+      const message = await playTurnNow(run, run.currentTurn);
+      if (signal.aborted) {
+        break;
+      }
+      if (!message) {
+        // Don't retry a failing participant in a loop; resuming tries it again
+        if (run.status === 'running') {
+          run.status = 'paused';
+          emitStatus(run, { reason: 'error' });
+        }
+        break;
+      }
+      if (finishIfStopped(run, message)) {
+        break;
+      }
+
+      // Cut short by a pause or stop, which ends the loop
+      await sleep(run.delayMs, signal).catch(() => {});
+    }
+  } finally {
+    run.loop = null;
+  }
+
+  // Resumed while this loop was still winding down from a pause
+  if (signal.aborted && run.status === 'running' && run.autoPlay) {
+    playLoop(run);
+  }
+}
+
+/**
+ * Starts or resumes a run from the participant whose turn it is
+ */
+export function startRun(run) {
+  assertNotStopped(run);
+  run.status = 'running';
+  run.stopReason = null;
+  emitStatus(run);
+  playLoop(run);
+}
+
+/**
+ * Pauses a run, interrupting the reply in progress
+ */
+export function pauseRun(run) {
+  assertNotStopped(run);
+  run.status = 'paused';
+  run.loop?.abort();
+  run.activeTurn?.controller.abort();
+  emitStatus(run);
+}
+
+/**
+ * Ends a run for good; its transcript stays readable
+ */
+export function stopRun(run) {
+  run.status = 'stopped';
+  run.loop?.abort();
+  run.activeTurn?.controller.abort();
+  emitStatus(run);
+}
+
+/**
+ * Plays a single turn on request (the per-participant Send buttons). While
+ * the run is running, only the participant whose turn it is may speak.
+ */
+export function playTurn(run, speaker = run.currentTurn) {
+  assertNotStopped(run);
+  getParticipant(run, speaker);
+  if (run.activeTurn || run.loop) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, 'A turn is already in progress');
+  }
+  if (run.status === 'running' && speaker !== run.currentTurn) {
+    throw new LLMError(ErrorCodes.RUN_CONFLICT, `It is ${getParticipant(run, run.currentTurn).name}'s turn`);
+  }
+  // A first turn starts the run; auto-play, if on, carries on from it
+  const previousStatus = run.status;
+  if (run.status === 'idle') {
+    run.status = 'running';
+    emitStatus(run);
+  }
+
+  playTurnNow(run, speaker).then((message) => {
+    if (run.status !== 'running') {
+      return; // Paused, stopped or finished meanwhile
+    }
+    // Auto-play may have been switched on while this turn played
+    if (run.autoPlay && !(message && finishIfStopped(run, message))) {
+      playLoop(run);
+    } else if (run.status === 'running' && previousStatus !== 'running') {
+      // Nothing plays next, so the run is back where it was
+      run.status = previousStatus;
+      emitStatus(run);
+    }
+  });
+}
+
+/**
+ * Adds a human-authored message to the transcript. Every participant sees it
+ * from their next turn; a reply already streaming is not affected.
+ */
+export function addModeratorMessage(run, content) {
+  assertNotStopped(run);
+  const message = {
+    id: randomUUID(),
+    speaker: null,
+    name: MODERATOR_NAME,
+    moderator: true,
+    content,
+    createdAt: new Date().toISOString(),
+  };
+  appendMessage(run, message);
+  emit(run, { type: 'moderator_message', message, run: summarize(run) });
+  return message;
+}
+
+/**
+ * Replaces a message's text by hand. A participant's reply is scored again
+ * when the run has a judge.
+ */
+export function editMessage(run, messageId, content) {
+  assertNotPlaying(run);
+  const index = findMessageIndex(run, messageId);
+  const message = run.messages[index];
+  message.content = content;
+  message.edited = true;
+  delete message.score;
+  transcriptChanged(run, index);
+  if (run.judge && !message.moderator) {
+    scoreMessage(run, message);
+  }
+  return message;
+}
+
+/**
+ * Deletes a message and everything after it; the conversation carries on
+ * from the message before
+ */
+export function deleteMessagesFrom(run, messageId) {
+  assertNotPlaying(run);
+  const index = findMessageIndex(run, messageId);
+  run.messages.splice(index);
+  transcriptChanged(run, index);
+}
+
+/**
+ * Plays a participant's reply again from the conversation before it, with
+ * their current settings or `overrides` for this turn only. The new version
+ * replaces the reply and the messages after it, which stay with the old
+ * version. Resolves once the turn is over; if it fails, the transcript is
+ * put back as it was.
+ */
+export function regenerateMessage(run, messageId, overrides = {}) {
+  assertNotPlaying(run);
+  const index = findMessageIndex(run, messageId);
+  const previous = run.messages[index];
+  if (previous.moderator) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, 'Moderator messages can be edited but not regenerated');
+  }
+  getParticipant(run, previous.speaker);
+
+  const following = run.messages.splice(index).slice(1);
+  transcriptChanged(run, index);
+  return playTurnNow(run, previous.speaker, { message: previous, following, overrides }).then((message) => {
+    // Nothing was kept, not even an interrupted reply
+    if (!message && !run.messages.some((msg) => msg.id === previous.id)) {
+      run.messages.splice(index, 0, previous, ...following);
+      transcriptChanged(run, index);
+    }
+  });
+}
+
+/**
+ * Shows another version of a regenerated reply, with the messages that
+ * followed that version
+ */
+export function selectVersion(run, messageId, version) {
+  assertNotPlaying(run);
+  const index = findMessageIndex(run, messageId);
+  const message = run.messages[index];
+  if (!message.versions?.[version]) {
+    throw new LLMError(ErrorCodes.VALIDATION_ERROR, `Message "${messageId}" has no version ${version}`);
+  }
+  if (version === message.activeVersion) {
+    return;
+  }
+
+  message.versions[message.activeVersion] = toVersion(message, run.messages.splice(index + 1));
+  const { following = [], ...fields } = message.versions[version];
+  for (const field of VERSION_FIELDS) {
+    delete message[field];
+  }
+  Object.assign(message, fields);
+  message.versions[version] = toVersion(message);
+  message.activeVersion = version;
+  run.messages.push(...following);
+  transcriptChanged(run, index);
+}
+
+/**
+ * Changes the title, topic, participants, speaking order, auto-play
+ * settings, stop conditions, the judge or the summarizer; takes effect from
+ * the next turn
+ */
+export function updateRun(run, changes) {
+  const participants = changes.participants ?? run.participants;
+  const turnOrder = changes.turnOrder ?? run.turnOrder;
+  let speakingOrder = changes.speakingOrder;
+  if (!speakingOrder) {
+    // Removing a participant drops them from the custom order
+    speakingOrder = run.speakingOrder.filter((id) => participants.some((p) => p.id === id));
+  }
+  checkSpeakingOrder(participants, turnOrder, speakingOrder);
+
+  const orderBefore = getOrder(run).join();
+  run.participants = participants;
+  run.turnOrder = turnOrder;
+  run.speakingOrder = speakingOrder;
+  if (getOrder(run).join() !== orderBefore) {
+    resetTurn(run, run.currentTurn);
+  }
+
+  for (const key of ['title', 'topic', 'autoPlay', 'delayMs', 'maxTurns', 'stopConditions', 'judge', 'summarizer']) {
+    if (changes[key] !== undefined) {
+      run[key] = changes[key];
+    }
+  }
+  emitStatus(run);
+
+  if (run.status === 'running' && run.autoPlay && !run.activeTurn) {
+    playLoop(run);
+  }
+}
+
+/**
+ * Updates a saved conversation: its settings as with updateRun and, when
+ * `messages` is given, its whole transcript. The transcript can only be
+ * replaced while the conversation isn't running.
+ */
+export function updateConversation(run, { messages, ...changes }) {
+  if (messages !== undefined) {
+    assertNotPlaying(run);
+    if (run.status === 'running') {
+      throw new LLMError(ErrorCodes.RUN_CONFLICT, 'Pause the conversation before changing its messages');
+    }
+    checkMessages(changes.participants ?? run.participants, messages);
+  }
+  updateRun(run, changes);
+  if (messages !== undefined) {
+    setMessages(run, messages);
+    transcriptChanged(run, 0);
+  }
+}
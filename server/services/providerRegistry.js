@@ -0,0 +1,231 @@
+import { providers } from '../config/providers.js';
+import * as openaiAdapter from './adapters/openaiAdapter.js';
+import * as langchainAdapter from './adapters/langchainAdapter.js';
+import * as mockAdapter from './adapters/mockAdapter.js';
+import * as anthropicAdapter from './adapters/anthropicAdapter.js';
+import { LLMError, ErrorCodes } from './errors.js';
+
+const adapters = {
+  openai: openaiAdapter,
+  langchain: langchainAdapter,
+  mock: mockAdapter,
+  anthropic: anthropicAdapter,
+};
+
+/**
+ * Finds the provider entry that claims a model name.
+ * Prefix and substring rules are checked in registry order; the fallback
+ * provider only applies when nothing else matched.
+ */
+export function findProvider(model) {
+  const name = model.toLowerCase();
+
+  const matched = providers.find((provider) => {
+    const { prefixes = [], includes = [] } = provider.match || {};
+    return (
+      prefixes.some((prefix) => name.startsWith(prefix)) ||
+      includes.some((fragment) => name.includes(fragment))
+    );
+  });
+
+  return matched || providers.find((provider) => provider.match?.fallback) || null;
+}
+
+/**
+ * Parses a provider's backend list from its env var.
+ * Format: comma-separated name=baseURL pairs.
+ */
+export function getBackends(provider) {
+  const raw = provider.backendsEnv ? process.env[provider.backendsEnv] : '';
+  if (!raw) {
+    return [];
+  }
+
+  return raw
+    .split(',')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      return {
+        name: pair.slice(0, separator).trim(),
+        baseURL: pair.slice(separator + 1).trim(),
+      };
+    })
+    .filter((backend) => backend.name && backend.baseURL);
+}
+
+/**
+ * Splits a backend-qualified model name (e.g. local:ollama/llama3.1:8b)
+ * into the backend it targets and the model id that backend expects
+ */
+function resolveBackendModel(provider, model) {
+  const prefix = provider.match.prefixes.find((p) => model.toLowerCase().startsWith(p));
+  const rest = model.slice(prefix.length);
+  const separator = rest.indexOf('/');
+  const backendName = separator === -1 ? rest : rest.slice(0, separator);
+  const upstream = separator === -1 ? '' : rest.slice(separator + 1);
+
+  const backend = getBackends(provider).find((b) => b.name === backendName);
+  if (!backend) {
+    throw new LLMError(
+      ErrorCodes.MODEL_NOT_FOUND,
+      `Unknown ${provider.name} backend "${backendName}" in model "${model}". ` +
+      `Configure it in ${provider.backendsEnv}.`
+    );
+  }
+  if (!upstream) {
+    throw new LLMError(
+      ErrorCodes.MODEL_NOT_FOUND,
+      `Model "${model}" must name a model, e.g. ${prefix}${backendName}/<model>`
+    );
+  }
+
+  return { backend, upstream };
+}
+
+/**
+ * Maps a requested model name to the identifier the provider expects
+ */
+function resolveUpstreamModel(provider, model) {
+  const name = model.toLowerCase();
+  const models = provider.models || [];
+
+  const exact = models.find((entry) => entry.id === name);
+  if (exact) {
+    return { entry: exact, upstream: exact.upstream || exact.id };
+  }
+
+  const aliased = models.find((entry) =>
+    (entry.aliases || []).some((alias) => name.includes(alias))
+  );
+  if (aliased) {
+    return { entry: aliased, upstream: aliased.upstream || aliased.id };
+  }
+
+  return { entry: null, upstream: provider.defaultUpstream || model };
+}
+
+/**
+ * Resolves a model name to its provider, upstream model id and capabilities
+ */
+export function resolveModel(model) {
+  const provider = findProvider(model);
+  if (!provider) {
+    throw new LLMError(ErrorCodes.MODEL_NOT_FOUND, `No provider is configured for model "${model}"`);
+  }
+
+  if (provider.backendsEnv) {
+    const { backend, upstream } = resolveBackendModel(provider, model);
+    return {
+      provider,
+      model,
+      upstreamModel: upstream,
+      baseURL: backend.baseURL,
+      capabilities: { ...provider.capabilities },
+    };
+  }
+
+  const { entry, upstream } = resolveUpstreamModel(provider, model);
+
+  return {
+    provider,
+    model,
+    upstreamModel: upstream,
+    baseURL: getBaseURL(provider),
+    capabilities: {
+      ...provider.capabilities,
+      ...(entry?.maxContext ? { maxContext: entry.maxContext } : {}),
+    },
+  };
+}
+
+export function getApiKey(provider) {
+  const apiKey = provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined;
+  // The OpenAI SDK falls back to OPENAI_API_KEY when no key is given,
+  // so keyless backends get a placeholder instead
+  return apiKey || (provider.apiKeyOptional ? 'not-needed' : undefined);
+}
+
+export function getBaseURL(provider) {
+  return (provider.baseURLEnv && process.env[provider.baseURLEnv]) || provider.defaultBaseURL;
+}
+
+export function getAdapter(provider) {
+  const adapter = adapters[provider.adapter];
+  if (!adapter) {
+    throw new Error(`Unknown adapter "${provider.adapter}" for provider ${provider.name}`);
+  }
+  return adapter;
+}
+
+/**
+ * Returns a user-facing message when the provider's API key is missing,
+ * or null when the provider is ready to use
+ */
+export function getMissingKeyMessage(provider) {
+  if (!provider.apiKeyEnv || provider.apiKeyOptional || getApiKey(provider)) {
+    return null;
+  }
+  return `API key not configured for ${provider.name}. ${provider.keyHelp}`;
+}
+
+/**
+ * Lists the models each provider offers. Static providers report their
+ * configured models; discoverable providers ask every backend for its list.
+ */
+export async function listModels() {
+  return Promise.all(providers.map(async (provider) => {
+    const summary = {
+      id: provider.id,
+      name: provider.name,
+      configured: !getMissingKeyMessage(provider),
+      capabilities: provider.capabilities,
+    };
+
+    if (!provider.discover) {
+      return {
+        ...summary,
+        models: provider.models.map((entry) => ({
+          id: entry.id,
+          label: entry.label || entry.id,
+          maxContext: entry.maxContext || provider.capabilities.maxContext,
+        })),
+      };
+    }
+
+    const adapter = getAdapter(provider);
+    const backends = await Promise.all(getBackends(provider).map(async (backend) => {
+      try {
+        const ids = await adapter.listModels({
+          apiKey: getApiKey(provider),
+          baseURL: backend.baseURL,
+        });
+        return {
+          name: backend.name,
+          baseURL: backend.baseURL,
+          models: ids.map((id) => ({
+            id: `${provider.match.prefixes[0]}${backend.name}/${id}`,
+            label: `${id} (${backend.name})`,
+            maxContext: provider.capabilities.maxContext,
+          })),
+        };
+      } catch (error) {
+        console.error(`[Provider Registry] Could not list models for ${backend.name} (${backend.baseURL}):`, error.message);
+        return {
+          name: backend.name,
+          baseURL: backend.baseURL,
+          error: error.message || 'Backend unreachable',
+          models: [],
+        };
+      }
+    }));
+
+    return {
+      ...summary,
+      configured: backends.length > 0,
+      backends: backends.map(({ models, ...backend }) => backend),
+      models: backends.flatMap((backend) => backend.models),
+    };
+  }));
+}
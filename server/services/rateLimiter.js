@@ -0,0 +1,216 @@
+import { providers } from '../config/providers.js';
+
+/**
+ * Request throttling for providers and clients
+ *
+ * Each limiter enforces a requests-per-minute budget (sliding window) and a
+ * cap on concurrent in-flight requests. Requests over either limit wait in a
+ * FIFO queue instead of failing; waiters are told their queue position
+ * whenever it changes so it can be reported to the browser.
+ *
+ * Provider limits come from the `limits` entry in server/config/providers.js
+ * and can be overridden with <PROVIDER>_RATE_LIMIT_RPM and
+ * <PROVIDER>_MAX_CONCURRENT (e.g. GROQ_RATE_LIMIT_RPM=30). Client limits
+ * use CLIENT_RATE_LIMIT_RPM and CLIENT_MAX_CONCURRENT. Unset or 0 means
+ * unlimited.
+ */
+
+const WINDOW_MS = 60_000;
+
+function readLimit(envName, fallback) {
+  const value = parseInt(process.env[envName] || '', 10);
+  return Number.isNaN(value) ? fallback || 0 : value;
+}
+
+class Limiter {
+  constructor(name, { rpm = 0, concurrency = 0 } = {}) {
+    this.name = name;
+    this.rpm = rpm;
+    this.concurrency = concurrency;
+    this.inFlight = 0;
+    this.startedAt = [];
+    this.waiting = [];
+    this.timer = null;
+  }
+
+  pruneWindow(now = Date.now()) {
+    while (this.startedAt.length && now - this.startedAt[0] >= WINDOW_MS) {
+      this.startedAt.shift();
+    }
+  }
+
+  hasCapacity() {
+    this.pruneWindow();
+    const underConcurrency = !this.concurrency || this.inFlight < this.concurrency;
+    const underRate = !this.rpm || this.startedAt.length < this.rpm;
+    return underConcurrency && underRate;
+  }
+
+  isIdle() {
+    this.pruneWindow();
+    return this.inFlight === 0 && this.waiting.length === 0 && this.startedAt.length === 0;
+  }
+
+  /**
+   * Waits for a slot. Resolves with a release function that must be called
+   * when the request finishes. Rejects if the signal aborts while queued.
+   * onQueued gets the 1-based queue position, and position 0 once admitted.
+   */
+  acquire({ signal, onQueued } = {}) {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.waiting.length === 0 && this.hasCapacity()) {
+      return Promise.resolve(this.start());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = { resolve, reject, onQueued, signal, position: 0 };
+
+      waiter.onAbort = () => {
+        this.waiting = this.waiting.filter((w) => w !== waiter);
+        this.notifyPositions();
+        reject(signal.reason);
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+
+      this.waiting.push(waiter);
+      this.notifyPositions();
+      this.schedule();
+    });
+  }
+
+  start() {
+    this.inFlight++;
+    this.startedAt.push(Date.now());
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.drain();
+    };
+  }
+
+  /**
+   * Admits queued requests while there is capacity
+   */
+  drain() {
+    while (this.waiting.length && this.hasCapacity()) {
+      const waiter = this.waiting.shift();
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      waiter.onQueued?.({ position: 0, waitingFor: this.name });
+      waiter.resolve(this.start());
+    }
+    this.notifyPositions();
+    this.schedule();
+  }
+
+  /**
+   * When only the per-minute budget is blocking, wake up as soon as the
+   * oldest request leaves the window
+   */
+  schedule() {
+    if (this.timer || !this.waiting.length || !this.rpm) {
+      return;
+    }
+    this.pruneWindow();
+    if (this.startedAt.length < this.rpm) {
+      return;
+    }
+    const wait = WINDOW_MS - (Date.now() - this.startedAt[0]);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(wait, 0));
+  }
+
+  notifyPositions() {
+    this.waiting.forEach((waiter, index) => {
+      const position = index + 1;
+      if (waiter.position !== position) {
+        waiter.position = position;
+        waiter.onQueued?.({ position, waitingFor: this.name });
+      }
+    });
+  }
+}
+
+const providerLimiters = new Map();
+const clientLimiters = new Map();
+
+function getProviderLimiter(provider) {
+  if (!providerLimiters.has(provider.id)) {
+    const prefix = provider.id.toUpperCase();
+    providerLimiters.set(provider.id, new Limiter(provider.name, {
+      rpm: readLimit(`${prefix}_RATE_LIMIT_RPM`, provider.limits?.rpm),
+      concurrency: readLimit(`${prefix}_MAX_CONCURRENT`, provider.limits?.concurrency),
+    }));
+  }
+  return providerLimiters.get(provider.id);
+}
+
+function getClientLimiter(clientId) {
+  // Forget clients that have gone quiet so the map doesn't grow forever
+  for (const [id, limiter] of clientLimiters) {
+    if (id !== clientId && limiter.isIdle()) {
+      clientLimiters.delete(id);
+    }
+  }
+
+  if (!clientLimiters.has(clientId)) {
+    clientLimiters.set(clientId, new Limiter('your other requests', {
+      rpm: readLimit('CLIENT_RATE_LIMIT_RPM'),
+      concurrency: readLimit('CLIENT_MAX_CONCURRENT'),
+    }));
+  }
+  return clientLimiters.get(clientId);
+}
+
+/**
+ * Waits for a provider slot; resolves with a release function
+ */
+export function acquireProviderSlot(provider, options) {
+  return getProviderLimiter(provider).acquire(options);
+}
+
+/**
+ * Waits for a per-client slot; resolves with a release function
+ */
+export function acquireClientSlot(clientId, options) {
+  return getClientLimiter(clientId).acquire(options);
+}
+
+/**
+ * Runs `operation` while holding a provider slot
+ */
+export async function withProviderSlot(provider, options, operation) {
+  const release = await acquireProviderSlot(provider, options);
+  try {
+    return await operation();
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Current limiter state, for the health endpoint and debugging
+ */
+export function getLimiterStats() {
+  return providers
+    .filter((provider) => providerLimiters.has(provider.id))
+    .map((provider) => {
+      const limiter = providerLimiters.get(provider.id);
+      limiter.pruneWindow();
+      return {
+        provider: provider.id,
+        rpm: limiter.rpm,
+        concurrency: limiter.concurrency,
+        inFlight: limiter.inFlight,
+        queued: limiter.waiting.length,
+        requestsLastMinute: limiter.startedAt.length,
+      };
+    });
+}
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { acquireClientSlot, acquireProviderSlot, withProviderSlot } from './rateLimiter.js';
+
+// Limiters are kept per provider id, so each test uses its own provider
+let providerCount = 0;
+const makeProvider = (limits) => {
+  providerCount++;
+  return { id: `test${providerCount}`, name: `Test ${providerCount}`, limits };
+};
+
+// Lets queued promises settle
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('provider limits', () => {
+  it('admits requests straight away when unlimited', async () => {
+    const provider = makeProvider();
+    const releases = await Promise.all([1, 2, 3].map(() => acquireProviderSlot(provider)));
+    expect(releases).toHaveLength(3);
+  });
+
+  it('queues requests over the concurrency limit in order', async () => {
+    const provider = makeProvider({ concurrency: 1 });
+    const releaseFirst = await acquireProviderSlot(provider);
+    const admitted = [];
+    const second = acquireProviderSlot(provider).then((release) => (admitted.push('second'), release));
+    const third = acquireProviderSlot(provider).then((release) => (admitted.push('third'), release));
+    await flush();
+    expect(admitted).toEqual([]);
+
+    releaseFirst();
+    (await second)();
+    await third;
+    expect(admitted).toEqual(['second', 'third']);
+  });
+
+  it('reports queue positions, and 0 once admitted', async () => {
+    const provider = makeProvider({ concurrency: 1 });
+    const release = await acquireProviderSlot(provider);
+    const first = [];
+    const second = [];
+    const firstSlot = acquireProviderSlot(provider, { onQueued: ({ position }) => first.push(position) });
+    const secondSlot = acquireProviderSlot(provider, { onQueued: ({ position }) => second.push(position) });
+    expect(first).toEqual([1]);
+    expect(second).toEqual([2]);
+
+    release();
+    (await firstSlot)();
+    (await secondSlot)();
+    expect(first).toEqual([1, 0]);
+    expect(second).toEqual([2, 1, 0]);
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    const provider = makeProvider({ concurrency: 1 });
+    const release = await acquireProviderSlot(provider);
+    const controller = new AbortController();
+    const positions = [];
+    const aborted = acquireProviderSlot(provider, { signal: controller.signal });
+    const next = acquireProviderSlot(provider, { onQueued: ({ position }) => positions.push(position) });
+
+    controller.abort(new Error('cancelled'));
+    await expect(aborted).rejects.toThrow('cancelled');
+    expect(positions).toEqual([2, 1]);
+
+    release();
+    await expect(next).resolves.toBeTypeOf('function');
+  });
+
+  it('rejects at once when the signal has already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    await expect(acquireProviderSlot(makeProvider(), { signal: controller.signal })).rejects.toThrow('cancelled');
+  });
+
+  it('holds requests over the per-minute budget until the window moves on', async () => {
+    vi.useFakeTimers();
+    const provider = makeProvider({ rpm: 2 });
+    (await acquireProviderSlot(provider))();
+    (await acquireProviderSlot(provider))();
+    let admitted = false;
+    const third = acquireProviderSlot(provider).then((release) => {
+      admitted = true;
+      return release;
+    });
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(admitted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(admitted).toBe(true);
+    (await third)();
+  });
+
+  it('lets the environment override the configured limits', async () => {
+    const provider = makeProvider({ concurrency: 1 });
+    vi.stubEnv(`${provider.id.toUpperCase()}_MAX_CONCURRENT`, '2');
+    const releases = await Promise.all([acquireProviderSlot(provider), acquireProviderSlot(provider)]);
+    expect(releases).toHaveLength(2);
+  });
+});
+
+describe('withProviderSlot', () => {
+  it('releases the slot when the operation fails', async () => {
+    const provider = makeProvider({ concurrency: 1 });
+    await expect(withProviderSlot(provider, {}, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await expect(withProviderSlot(provider, {}, async () => 'ok')).resolves.toBe('ok');
+  });
+});
+
+describe('client limits', () => {
+  it('limits each client separately', async () => {
+    vi.stubEnv('CLIENT_MAX_CONCURRENT', '1');
+    const release = await acquireClientSlot('client-a');
+    let queued = false;
+    const slot = acquireClientSlot('client-a', { onQueued: ({ position }) => (queued = position > 0) });
+    expect(queued).toBe(true);
+    await expect(acquireClientSlot('client-b')).resolves.toBeTypeOf('function');
+
+    release();
+    (await slot)();
+  });
+});
@@ -0,0 +1,126 @@
+import { sleep } from './sleep.js';
+
+/**
+ * Retry helpers for provider calls
+ *
+ * Transient failures (429, 5xx, dropped connections) are retried with
+ * exponential backoff and full jitter. A Retry-After header from the
+ * provider takes precedence over the computed delay.
+ *
+ * Environment:
+ *   LLM_RETRY_ATTEMPTS       retries after the first attempt (default 2)
+ *   LLM_RETRY_BASE_DELAY_MS  delay before the first retry (default 500)
+ *   LLM_RETRY_MAX_DELAY_MS   upper bound for any single delay (default 10000)
+ */
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+export function getRetryConfig() {
+  return {
+    retries: Math.max(0, parseInt(process.env.LLM_RETRY_ATTEMPTS || '2', 10)),
+    baseDelayMs: Math.max(0, parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10)),
+    maxDelayMs: Math.max(0, parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '10000', 10)),
+  };
+}
+
+function getStatus(error) {
+  return error?.status || error?.response?.status || error?.statusCode;
+}
+
+/**
+ * Reads a header from either a fetch Headers object or a plain object
+ */
+function getHeader(headers, name) {
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  return headers[name] ?? headers[name.toLowerCase()];
+}
+
+/**
+ * Whether a failed call is worth repeating: rate limits, server errors,
+ * timeouts and dropped connections. Client errors (400, 401, 404, ...) are not.
+ */
+export function isRetryableError(error) {
+  if (error?.name === 'AbortError') {
+    return false;
+  }
+
+  const status = getStatus(error);
+  if (status) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  const code = error?.code || error?.cause?.code;
+  return (
+    NETWORK_ERROR_CODES.includes(code) ||
+    /connection error|socket hang up|fetch failed|timed out/i.test(error?.message || '')
+  );
+}
+
+/**
+ * Parses Retry-After (seconds or an HTTP date) or retry-after-ms, in milliseconds
+ */
+export function getRetryAfterMs(error) {
+  const headers = error?.headers || error?.response?.headers;
+
+  const retryAfterMs = parseFloat(getHeader(headers, 'retry-after-ms'));
+  if (!Number.isNaN(retryAfterMs)) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return null;
+  }
+
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `attempt` (0-based)
+ */
+export function getRetryDelay(error, attempt, { baseDelayMs, maxDelayMs }) {
+  const retryAfterMs = getRetryAfterMs(error);
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  // Full jitter: a random delay between 0 and the exponential cap
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+/**
+ * Runs `operation` and retries it on transient failures
+ *
+ * options.shouldRetry can veto a retry (e.g. once a stream has sent output),
+ * options.onRetry is told about each retry before it waits.
+ */
+export async function withRetry(operation, options = {}) {
+  const config = { ...getRetryConfig(), ...options };
+  const { retries, signal, shouldRetry = () => true, onRetry } = config;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !isRetryableError(error) || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(error, attempt, config);
+      onRetry?.({ error, attempt: attempt + 1, delayMs });
+      await sleep(delayMs, signal);
+    }
+  }
+}
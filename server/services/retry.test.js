@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getRetryAfterMs, getRetryDelay, isRetryableError, withRetry } from './retry.js';
+
+const httpError = (status, headers) => Object.assign(new Error(`${status} error`), { status, headers });
+
+const noDelay = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe('isRetryableError', () => {
+  it('retries rate limits, timeouts and server errors', () => {
+    for (const status of [408, 409, 429, 500, 502, 503]) {
+      expect(isRetryableError(httpError(status))).toBe(true);
+    }
+  });
+
+  it('does not retry client errors', () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableError(httpError(status))).toBe(false);
+    }
+  });
+
+  it('retries dropped connections', () => {
+    expect(isRetryableError(Object.assign(new Error('read failed'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true);
+    expect(isRetryableError(new Error('fetch failed', { cause: { code: 'ETIMEDOUT' } }))).toBe(true);
+  });
+
+  it('does not retry aborted calls or other errors', () => {
+    expect(isRetryableError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(false);
+    expect(isRetryableError(new Error('Unexpected token'))).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads Retry-After in seconds', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+  });
+
+  it('prefers retry-after-ms', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '2', 'retry-after-ms': '150' }))).toBe(150);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    try {
+      expect(getRetryAfterMs(httpError(503, { 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' }))).toBe(5000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reads fetch Headers', () => {
+    expect(getRetryAfterMs(httpError(429, new Headers({ 'Retry-After': '1' })))).toBe(1000);
+  });
+
+  it('is null without the header', () => {
+    expect(getRetryAfterMs(httpError(500))).toBeNull();
+    expect(getRetryAfterMs(new Error('no headers'))).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  const config = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it('stays under the exponential cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    try {
+      expect(getRetryDelay(httpError(500), 0, config)).toBeLessThanOrEqual(100);
+      expect(getRetryDelay(httpError(500), 2, config)).toBeLessThanOrEqual(400);
+      expect(getRetryDelay(httpError(500), 10, config)).toBeLessThanOrEqual(1000);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('follows Retry-After up to the maximum', () => {
+    expect(getRetryDelay(httpError(429, { 'retry-after-ms': '300' }), 0, config)).toBe(300);
+    expect(getRetryDelay(httpError(429, { 'retry-after': '60' }), 0, config)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce('ok');
+    await expect(withRetry(operation, noDelay)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(operation).toHaveBeenLastCalledWith(1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const error = httpError(500);
+    const operation = vi.fn().mockRejectedValue(error);
+    await expect(withRetry(operation, noDelay)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(401));
+    await expect(withRetry(operation, noDelay)).rejects.toMatchObject({ status: 401 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets shouldRetry veto a retry', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(500));
+    await expect(withRetry(operation, { ...noDelay, shouldRetry: () => false })).rejects.toMatchObject({ status: 500 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells onRetry about each retry', async () => {
+    const onRetry = vi.fn();
+    const operation = vi.fn().mockRejectedValue(httpError(500));
+    await expect(withRetry(operation, { ...noDelay, onRetry })).rejects.toThrow();
+    expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    const operation = vi.fn().mockRejectedValue(httpError(503, { 'retry-after': '60' }));
+    const result = withRetry(operation, {
+      retries: 5,
+      baseDelayMs: 60_000,
+      maxDelayMs: 60_000,
+      signal: controller.signal,
+      onRetry: () => setTimeout(() => controller.abort(reason), 0),
+    });
+    await expect(result).rejects.toBe(reason);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
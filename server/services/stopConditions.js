@@ -0,0 +1,124 @@
+/**
+ * Stop conditions for conversation runs
+ *
+ * Rules that end auto-play on their own, next to the run's maxTurns:
+ *   max_turns   the run has played maxTurns turns
+ *   max_tokens  participants' replies used stopConditions.maxTokens tokens
+ *   stop_phrase a reply contains stopConditions.stopPhrase, e.g. "[END]"
+ *   repetition  the latest replies mostly repeat word 3-grams from recent
+ *               turns (stopConditions.repetition is the share that counts)
+ *   agreement   every participant's latest reply ends with CONCLUDE_MARKER;
+ *               participants are told about the marker in their prompt
+ *
+ * The limits are checked before every turn, so raising them lets a finished
+ * run carry on. The rules about replies are checked once, right after the
+ * reply, so resuming after one of them does not end the run straight away.
+ */
+
+export const CONCLUDE_MARKER = '[CONCLUDE]';
+
+const NGRAM_SIZE = 3;
+const MIN_NGRAMS = 8; // Shorter replies are too short to judge
+const REPETITION_WINDOW = 6; // Earlier replies a reply is compared with
+const REPEATING_REPLIES = 2; // Replies in a row that must repeat themselves
+
+const getReplies = (run) => run.messages.filter((msg) => !msg.moderator && msg.content.trim());
+
+const percent = (share) => `${Math.round(share * 100)}%`;
+
+function getNgrams(text) {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+  const ngrams = new Set();
+  for (let i = 0; i + NGRAM_SIZE <= words.length; i++) {
+    ngrams.add(words.slice(i, i + NGRAM_SIZE).join(' '));
+  }
+  return ngrams;
+}
+
+/**
+ * Share of the reply at `index` whose 3-grams already appear in the replies
+ * before it, or null when it is too short to tell
+ */
+function getRepetition(replies, index) {
+  const ngrams = getNgrams(replies[index].content);
+  if (ngrams.size < MIN_NGRAMS) {
+    return null;
+  }
+  const earlier = new Set();
+  for (const reply of replies.slice(Math.max(0, index - REPETITION_WINDOW), index)) {
+    getNgrams(reply.content).forEach((ngram) => earlier.add(ngram));
+  }
+  let repeated = 0;
+  ngrams.forEach((ngram) => {
+    if (earlier.has(ngram)) {
+      repeated++;
+    }
+  });
+  return repeated / ngrams.size;
+}
+
+function checkLimits(run) {
+  if (run.turnCount >= run.maxTurns) {
+    return { rule: 'max_turns', detail: `Reached the limit of ${run.maxTurns} turns` };
+  }
+  const { maxTokens } = run.stopConditions;
+  if (maxTokens) {
+    // Replies only; every turn resends the context, so prompts would count it again and again
+    const used = run.messages.reduce((sum, msg) => sum + (msg.usage?.completionTokens || 0), 0);
+    if (used >= maxTokens) {
+      return { rule: 'max_tokens', detail: `Used ${used} tokens, past the limit of ${maxTokens}` };
+    }
+  }
+  return null;
+}
+
+function checkReply(run, message) {
+  const { stopPhrase, repetition, agreement } = run.stopConditions;
+
+  if (stopPhrase && message.content.toLowerCase().includes(stopPhrase.toLowerCase())) {
+    return { rule: 'stop_phrase', detail: `${message.name} said "${stopPhrase}"`, messageId: message.id };
+  }
+
+  const replies = getReplies(run);
+  if (repetition && replies.length > REPEATING_REPLIES) {
+    const shares = [];
+    for (let i = replies.length - REPEATING_REPLIES; i < replies.length; i++) {
+      shares.push(getRepetition(replies, i));
+    }
+    if (shares.every((share) => share !== null && share >= repetition)) {
+      return {
+        rule: 'repetition',
+        detail: `The last ${REPEATING_REPLIES} replies repeated earlier turns (${shares.map(percent).join(' and ')} of their phrases)`,
+        messageId: message.id,
+      };
+    }
+  }
+
+  if (agreement) {
+    const latest = run.participants.map((p) => replies.findLast((msg) => msg.speaker === p.id));
+    if (latest.every((msg) => msg?.content.trimEnd().endsWith(CONCLUDE_MARKER))) {
+      return { rule: 'agreement', detail: 'Every participant agreed to conclude', messageId: message.id };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The first stop rule the run meets, as { rule, detail, messageId? }, or
+ * null. Pass the reply that just finished to check the rules about replies.
+ */
+export function checkStopConditions(run, message = null) {
+  return checkLimits(run) || (message ? checkReply(run, message) : null);
+}
+
+/**
+ * Extra system prompt for participants when agreement can end the run
+ */
+export function getStopInstructions(stopConditions) {
+  if (!stopConditions.agreement) {
+    return '';
+  }
+  return `If you feel the conversation has reached a natural conclusion, say so and end your reply with ${CONCLUDE_MARKER}. `
+    + 'The conversation ends once everyone has done this.';
+}
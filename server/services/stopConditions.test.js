@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CONCLUDE_MARKER, checkStopConditions, getStopInstructions } from './stopConditions.js';
+
+const participants = [{ id: 'a', name: 'Ada' }, { id: 'b', name: 'Bo' }];
+
+let messageCount = 0;
+const reply = (speaker, content, extra = {}) => {
+  messageCount++;
+  return { id: `m${messageCount}`, speaker, name: speaker === 'a' ? 'Ada' : 'Bo', content, ...extra };
+};
+
+const makeRun = (messages, { maxTurns = 50, ...stopConditions } = {}) => ({
+  participants,
+  messages,
+  turnCount: messages.filter((msg) => !msg.moderator).length,
+  maxTurns,
+  stopConditions: { maxTokens: null, stopPhrase: '', repetition: null, agreement: false, ...stopConditions },
+});
+
+// Checks the run as it would be right after its last message
+const check = (run) => checkStopConditions(run, run.messages.at(-1));
+
+const SENTENCE = 'the quick brown fox jumps over the lazy dog again and again today';
+
+describe('checkStopConditions', () => {
+  it('is null when no rule is met', () => {
+    expect(check(makeRun([reply('a', 'Hello.'), reply('b', 'Hi.')]))).toBeNull();
+  });
+
+  it('stops at maxTurns, before a turn too', () => {
+    const run = makeRun([reply('a', 'One.'), reply('b', 'Two.')], { maxTurns: 2 });
+    expect(checkStopConditions(run)).toEqual({ rule: 'max_turns', detail: 'Reached the limit of 2 turns' });
+  });
+
+  it('stops once the replies used maxTokens tokens, not counting prompts', () => {
+    const usage = (completionTokens) => ({
+      usage: { promptTokens: 1000, completionTokens, totalTokens: 1000 + completionTokens },
+    });
+    const run = makeRun([reply('a', 'One.', usage(60)), reply('b', 'Two.', usage(50))], { maxTokens: 100 });
+    expect(checkStopConditions(run)).toMatchObject({ rule: 'max_tokens', detail: 'Used 110 tokens, past the limit of 100' });
+    expect(checkStopConditions(makeRun(run.messages, { maxTokens: 200 }))).toBeNull();
+  });
+
+  it('stops on the stop phrase, ignoring case', () => {
+    const run = makeRun([reply('a', 'Hello.'), reply('b', "That's all. [end]")], { stopPhrase: '[END]' });
+    expect(check(run)).toEqual({ rule: 'stop_phrase', detail: 'Bo said "[END]"', messageId: run.messages[1].id });
+  });
+
+  it('checks rules about replies only when given the reply', () => {
+    const run = makeRun([reply('a', 'Done [END]')], { stopPhrase: '[END]' });
+    expect(checkStopConditions(run)).toBeNull();
+  });
+
+  it('stops when the last two replies repeat earlier turns', () => {
+    const run = makeRun([reply('a', SENTENCE), reply('b', SENTENCE), reply('a', `So, ${SENTENCE}`)], { repetition: 0.8 });
+    expect(check(run)).toMatchObject({ rule: 'repetition', messageId: run.messages[2].id });
+    expect(check(run).detail).toBe('The last 2 replies repeated earlier turns (100% and 92% of their phrases)');
+  });
+
+  it('does not count a single repeated reply or short replies as repetition', () => {
+    const fresh = 'we should also consider how the costs change when the team doubles in size';
+    expect(check(makeRun([reply('a', SENTENCE), reply('b', fresh), reply('a', SENTENCE)], { repetition: 0.8 }))).toBeNull();
+    expect(check(makeRun([reply('a', 'I agree.'), reply('b', 'I agree.'), reply('a', 'I agree.')], { repetition: 0.5 }))).toBeNull();
+  });
+
+  it("stops when every participant's latest reply concludes", () => {
+    const run = makeRun([reply('a', `Agreed. ${CONCLUDE_MARKER}`), reply('b', `Same here. ${CONCLUDE_MARKER}`)], { agreement: true });
+    expect(check(run)).toEqual({ rule: 'agreement', detail: 'Every participant agreed to conclude', messageId: run.messages[1].id });
+  });
+
+  it('only counts the marker at the end of a reply', () => {
+    const run = makeRun(
+      [reply('a', `Agreed. ${CONCLUDE_MARKER}\n`), reply('b', `I won't say ${CONCLUDE_MARKER} yet.`)],
+      { agreement: true }
+    );
+    expect(check(run)).toBeNull();
+    run.messages.push(reply('b', `Fine, ${CONCLUDE_MARKER}  `));
+    expect(check(run)).toMatchObject({ rule: 'agreement' });
+  });
+
+  it('needs the latest reply of everyone to conclude', () => {
+    const messages = [reply('a', `Agreed. ${CONCLUDE_MARKER}`), reply('b', `Me too. ${CONCLUDE_MARKER}`), reply('a', 'Actually, one more point.')];
+    expect(check(makeRun(messages, { agreement: true }))).toBeNull();
+    expect(check(makeRun(messages.slice(0, 1), { agreement: true }))).toBeNull();
+  });
+});
+
+describe('getStopInstructions', () => {
+  it('tells participants about the marker only with agreement on', () => {
+    expect(getStopInstructions({ agreement: false })).toBe('');
+    expect(getStopInstructions({ agreement: true })).toContain(CONCLUDE_MARKER);
+  });
+});
@@ -0,0 +1,85 @@
+import { generateResponse } from './llmService.js';
+import { LLMError, ErrorCodes } from './errors.js';
+
+/**
+ * Rolling summary memory for conversation runs
+ *
+ * Without a summarizer, participants see as much of the latest transcript
+ * as fits their model's context, and forget how a long conversation
+ * started. With one, the
+ * summarizer model folds everything but the most recent messages into a
+ * running summary, which participants get in their system prompt while
+ * the recent messages stay verbatim (see conversationHistory.js).
+ *
+ * The summary is brought up to date before a turn once SUMMARY_BATCH
+ * messages have dropped out of the verbatim window, so it is not rewritten
+ * after every single reply, and whenever messages it doesn't cover would be
+ * trimmed to fit a participant's context.
+ */
+
+const SUMMARY_BATCH = 6;
+
+const INSTRUCTIONS = 'You keep the running summary of a conversation between several participants. '
+  + 'Update the summary with the new messages. Keep the topic, where each participant stands and why, '
+  + 'points they agreed or disagreed on, questions still open and any directions from the Moderator. '
+  + 'Refer to participants by name. Reply with the updated summary only, in plain prose.';
+
+const formatTranscript = (messages) =>
+  messages.map((msg) => `${msg.name}: ${msg.content}`).join('\n\n');
+
+/**
+ * Number of messages the summary should cover: all but the most recent
+ */
+const getTarget = (run) => Math.max(0, run.messages.length - run.summarizer.recentMessages);
+
+/**
+ * Whether enough messages have left the verbatim window to update the summary
+ */
+export function needsSummary(run) {
+  const covered = run.summary?.coveredCount ?? 0;
+  return Boolean(run.summarizer) && getTarget(run) - covered >= SUMMARY_BATCH;
+}
+
+/**
+ * Folds the messages that left the verbatim window into the run's summary,
+ * or all messages before `coveredCount` when given. Resolves with the new
+ * summary; pass `signal` to cancel.
+ */
+export async function summarizeConversation(summarizer, run, signal, coveredCount = getTarget(run)) {
+  const previous = run.summary;
+  const messages = run.messages
+    .slice(previous?.coveredCount ?? 0, coveredCount)
+    .filter((msg) => msg.content.trim());
+
+  const prompt = [
+    run.topic && `Topic: ${run.topic}`,
+    `Participants: ${run.participants.map((p) => p.name).join(', ')}`,
+    previous && `Summary so far:\n\n${previous.content}`,
+    `New messages:\n\n${formatTranscript(messages)}`,
+  ].filter(Boolean).join('\n\n---\n\n');
+
+  const result = await generateResponse(
+    summarizer.model,
+    summarizer.temperature,
+    summarizer.maxTokens,
+    INSTRUCTIONS,
+    [{ role: 'user', content: prompt }],
+    { fallbackModels: summarizer.fallbackModels, signal }
+  );
+  if (!result.success) {
+    throw new LLMError(result.code || ErrorCodes.PROVIDER_ERROR, `Summarizer failed: ${result.error}`);
+  }
+  if (!result.content.trim()) {
+    throw new LLMError(ErrorCodes.EMPTY_RESPONSE, 'Summarizer returned an empty summary');
+  }
+
+  return {
+    content: result.content.trim(),
+    coveredCount, // The first coveredCount messages of the transcript
+    model: result.model,
+    usage: result.usage,
+    // Summaries are rewritten, so their cost adds up across updates
+    cost: result.cost == null ? previous?.cost ?? null : (previous?.cost ?? 0) + result.cost,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Transcript exports
+ *
+ * Turns a conversation record (see getRecord in orchestrator.js) into a file
+ * to keep or share:
+ *   markdown  the transcript with a heading per speaker, for reports
+ *   json      the whole record, settings, timestamps and per-message model
+ *             and parameters included, in an envelope naming the format
+ *   html      a single styled page with no outside assets, one column per
+ *             participant like the chat view
+ */
+
+export const EXPORT_FORMAT = 'dual-llm-conversation';
+export const EXPORT_VERSION = 1;
+
+const FORMATS = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8', render: toMarkdown },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8', render: toJson },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8', render: toHtml },
+};
+
+const getTitle = (record) => record.title || record.topic || 'Untitled conversation';
+
+const formatDate = (iso) => new Date(iso).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+
+const formatCost = (cost) => (cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`);
+
+// Transcript without replies that were cut short before they said anything
+const getMessages = (record) => record.messages.filter((msg) => msg.content.trim());
+
+/**
+ * Short line about how a reply was made: model, parameters, time and usage
+ */
+function describeMessage(message) {
+  const parts = [];
+  if (message.model) {
+    parts.push(message.fallbackFrom ? `${message.model} (fallback for ${message.fallbackFrom})` : message.model);
+  }
+  if (message.parameters) {
+    parts.push(`temperature ${message.parameters.temperature}`, `max ${message.parameters.maxTokens} tokens`);
+  }
+  parts.push(formatDate(message.createdAt));
+  if (message.usage) {
+    parts.push(`${message.usage.totalTokens} tokens${message.cost != null ? ` · ${formatCost(message.cost)}` : ''}`);
+  }
+  if (message.score) {
+    parts.push(`judge ${message.score.average.toFixed(1)}/10`);
+  }
+  if (message.edited) {
+    parts.push('edited');
+  }
+  if (message.interrupted) {
+    parts.push('interrupted');
+  }
+  return parts.join(' · ');
+}
+
+function describeParticipant(participant) {
+  return `${participant.model}, temperature ${participant.temperature}, max ${participant.maxTokens} tokens`;
+}
+
+function toMarkdown(record) {
+  const lines = [`# ${getTitle(record)}`, ''];
+  if (record.title && record.topic) {
+    lines.push(`**Topic:** ${record.topic}`, '');
+  }
+  lines.push('**Participants:**', '');
+  for (const participant of record.participants) {
+    lines.push(`- **${participant.name}**: ${describeParticipant(participant)}`);
+  }
+  lines.push('', `_Started ${formatDate(record.createdAt)} · ${record.turnCount} turns_`, '', '---');
+
+  for (const message of getMessages(record)) {
+    lines.push('', `## ${message.name}`, '');
+    if (!message.moderator) {
+      lines.push(`_${describeMessage(message)}_`, '');
+    }
+    lines.push(message.content.trim());
+  }
+
+  if (record.verdict) {
+    const { winnerName, rationale, model } = record.verdict;
+    lines.push('', '---', '', '## Verdict', '');
+    lines.push(`**${winnerName ? `Winner: ${winnerName}` : 'Tie'}** (judged by ${model})`, '', rationale);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function toJson(record) {
+  const document = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: record,
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+const escapeHtml = (text) =>
+  String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; background: #f8fafc; color: #0f172a; }
+  header { padding: 20px 24px; background: #fff; border-bottom: 1px solid #e2e8f0; }
+  h1 { margin: 0 0 4px; font-size: 20px; }
+  .meta { margin: 0; font-size: 13px; color: #64748b; }
+  .transcript { display: grid; gap: 12px 16px; padding: 16px 24px; }
+  .column-head { position: sticky; top: 0; padding: 10px 12px; background: #fff; border-bottom: 3px solid; font-weight: 600; }
+  .column-head small { display: block; font-weight: 400; font-size: 12px; color: #64748b; }
+  .bubble { padding: 10px 14px; border-radius: 12px; border: 1px solid; background: #fff; }
+  .bubble .text { white-space: pre-wrap; line-height: 1.5; font-size: 14px; }
+  .bubble .details { margin-top: 6px; font-size: 11px; color: #64748b; }
+  .moderator { grid-column: 1 / -1; justify-self: center; max-width: 720px; padding: 8px 14px; border-radius: 12px; background: #fef3c7; border: 1px solid #fcd34d; font-size: 14px; white-space: pre-wrap; }
+  .moderator strong { display: block; font-size: 11px; text-transform: uppercase; color: #92400e; }
+  .verdict { margin: 8px 24px 24px; padding: 14px 16px; border-radius: 12px; background: #fff; border: 1px solid #e2e8f0; font-size: 14px; white-space: pre-wrap; }
+`;
+
+function toHtml(record) {
+  const columns = new Map(record.participants.map((participant, index) => [participant.id, index + 1]));
+  const colors = new Map(record.participants.map((participant) => [participant.id, participant.color]));
+
+  const heads = record.participants
+    .map((participant) => `
+    <div class="column-head" style="border-color: ${escapeHtml(participant.color)}">
+      ${escapeHtml(participant.name)}
+      <small>${escapeHtml(describeParticipant(participant))}</small>
+    </div>`)
+    .join('');
+
+  // Each reply sits in its speaker's column, in transcript order; speakers
+  // who have since left the conversation share the first column
+  const rows = getMessages(record)
+    .map((message, index) => {
+      const row = index + 2;
+      if (message.moderator) {
+        return `
+    <div class="moderator" style="grid-row: ${row}"><strong>${escapeHtml(message.name)}</strong>${escapeHtml(message.content.trim())}</div>`;
+      }
+      const color = colors.get(message.speaker) || '#64748b';
+      return `
+    <div class="bubble" style="grid-row: ${row}; grid-column: ${columns.get(message.speaker) || 1}; border-color: ${escapeHtml(color)}">
+      <div class="text">${escapeHtml(message.content.trim())}</div>
+      <div class="details">${escapeHtml(describeMessage(message))}</div>
+    </div>`;
+    })
+    .join('');
+
+  const verdict = record.verdict
+    ? `
+  <div class="verdict"><strong>Verdict: ${escapeHtml(record.verdict.winnerName ? `${record.verdict.winnerName} wins` : 'Tie')}</strong> (judged by ${escapeHtml(record.verdict.model)})
+
+${escapeHtml(record.verdict.rationale)}</div>`
+    : '';
+
+  const topic = record.title && record.topic ? `Topic: ${record.topic} · ` : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(getTitle(record))}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(getTitle(record))}</h1>
+  <p class="meta">${escapeHtml(`${topic}Started ${formatDate(record.createdAt)} · ${record.turnCount} turns`)}</p>
+</header>
+<main>
+  <div class="transcript" style="grid-template-columns: repeat(${record.participants.length}, minmax(16rem, 1fr))">${heads}${rows}
+  </div>${verdict}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * File name for an export, from the conversation's title
+ */
+function getFileName(record, extension) {
+  const slug = getTitle(record)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+/**
+ * Renders the conversation in `format` (markdown, json or html). Returns
+ * { body, contentType, fileName }.
+ */
+export function exportConversation(record, format) {
+  const { extension, contentType, render } = FORMATS[format];
+  return { body: render(record), contentType, fileName: getFileName(record, extension) };
+}
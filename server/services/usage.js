@@ -0,0 +1,45 @@
+import { modelPricing, freeProviders } from '../config/pricing.js';
+
+/**
+ * Rough token count for providers that don't report usage
+ * (about four characters per token for English text)
+ */
+export function estimateTokens(text) {
+  return Math.ceil((text || '').length / 4);
+}
+
+/**
+ * Builds a usage record, estimating any counts the provider left out
+ */
+export function normalizeUsage(usage, messages, content) {
+  const hasPrompt = Number.isFinite(usage?.promptTokens);
+  const hasCompletion = Number.isFinite(usage?.completionTokens);
+
+  const promptTokens = hasPrompt
+    ? usage.promptTokens
+    : messages.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+  const completionTokens = hasCompletion ? usage.completionTokens : estimateTokens(content);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: !hasPrompt || !hasCompletion,
+  };
+}
+
+/**
+ * Cost in USD for a call, or null when the model has no known price
+ */
+export function calculateCost(resolved, usage) {
+  if (freeProviders.includes(resolved.provider.id)) {
+    return 0;
+  }
+
+  const price = modelPricing[resolved.model] || modelPricing[resolved.upstreamModel];
+  if (!price) {
+    return null;
+  }
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Home from "./pages/Home";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import Replay from "./pages/Replay";
 import NotFound from "./pages/NotFound";
 
 const App = () => (
@@ -14,6 +16,8 @@ const App = () => (
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/chat" element={<Index />} />
+        <Route path="/history" element={<History />} />
+        <Route path="/replay" element={<Replay />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </BrowserRouter>
@@ -0,0 +1,60 @@
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+export interface AutoPlaySettings {
+  enabled: boolean;
+  delaySeconds: number; // Pause between one reply finishing and the next starting
+  maxTurns: number; // Auto-play stops once this many turns have completed
+}
+
+interface AutoPlayControlsProps {
+  settings: AutoPlaySettings;
+  onChange: (settings: AutoPlaySettings) => void;
+}
+
+/**
+ * Toggle and settings for hands-free turn taking
+ */
+export const AutoPlayControls = ({ settings, onChange }: AutoPlayControlsProps) => {
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        variant={settings.enabled ? "default" : "outline"}
+        size="sm"
+        className="gap-2"
+        aria-pressed={settings.enabled}
+      >
+        <Repeat className="w-4 h-4" />
+        Auto-play {settings.enabled ? "on" : "off"}
+      </Button>
+      <div className={cn("flex items-center gap-1.5", !settings.enabled && "opacity-50")}>
+        <Label htmlFor="auto-play-delay" className="text-xs text-muted-foreground">Delay (s)</Label>
+        <Input
+          id="auto-play-delay"
+          type="number"
+          value={settings.delaySeconds}
+          onChange={(e) => onChange({ ...settings, delaySeconds: Math.max(0, parseFloat(e.target.value) || 0) })}
+          min={0}
+          max={60}
+          step={0.5}
+          className="h-8 w-16 text-xs"
+        />
+        <Label htmlFor="auto-play-max-turns" className="text-xs text-muted-foreground">Max turns</Label>
+        <Input
+          id="auto-play-max-turns"
+          type="number"
+          value={settings.maxTurns}
+          onChange={(e) => onChange({ ...settings, maxTurns: Math.max(1, parseInt(e.target.value) || 1) })}
+          min={1}
+          max={500}
+          step={1}
+          className="h-8 w-16 text-xs"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import { GitBranch, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { buildBranchTree, type BranchNode } from "@/lib/branches";
+import type { RunStatus, RunSummary } from "@/services/runs";
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  idle: "Not started",
+  running: "Running",
+  paused: "Paused",
+  stopped: "Stopped",
+  finished: "Finished",
+};
+
+interface BranchPanelProps {
+  branches: RunSummary[];
+  currentId: string | null;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * The conversation's branches as a tree, to switch between them
+ */
+export const BranchPanel = ({ branches, currentId, onSelect, onClose }: BranchPanelProps) => {
+  const renderNode = ({ branch, children }: BranchNode, depth: number) => (
+    <li key={branch.id}>
+      <button
+        type="button"
+        onClick={() => onSelect(branch.id)}
+        disabled={branch.id === currentId}
+        aria-current={branch.id === currentId}
+        className={cn(
+          "w-full rounded-md px-2 py-1.5 text-left text-xs hover:bg-muted/60 disabled:cursor-default",
+          branch.id === currentId && "bg-muted"
+        )}
+        style={{ paddingLeft: `${0.5 + depth}rem` }}
+      >
+        <span className="flex items-center gap-1.5 font-medium">
+          <GitBranch className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+          <span className="flex-1 truncate">{branch.branchName}</span>
+          <span className="font-normal text-[10px] text-muted-foreground">{STATUS_LABELS[branch.status]}</span>
+        </span>
+        <span className="block text-[10px] text-muted-foreground ml-[1.125rem]">
+          {branch.forkedFrom && `From message ${branch.forkedFrom.position} (${branch.forkedFrom.name}) · `}
+          {branch.turnCount} {branch.turnCount === 1 ? "turn" : "turns"}
+        </span>
+      </button>
+      {children.length > 0 && <ul className="space-y-0.5 mt-0.5">{children.map(child => renderNode(child, depth + 1))}</ul>}
+    </li>
+  );
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden bg-card/30">
+      <div className="px-4 py-2 border-b border-border bg-card/50 flex items-center gap-2 flex-shrink-0">
+        <GitBranch className="w-4 h-4 text-muted-foreground" />
+        <h2 className="text-base font-semibold flex-1">Branches</h2>
+        <Button
+          onClick={onClose}
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground"
+          aria-label="Hide branches panel"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4 space-y-3">
+          <ul className="space-y-0.5">{buildBranchTree(branches).map(node => renderNode(node, 0))}</ul>
+          <p className="text-xs text-muted-foreground">
+            Branch from any message with its <GitBranch className="inline w-3 h-3" /> button to try another
+            direction. The branch starts with the conversation up to that message and its own copy of the
+            settings; the original stays as it was.
+          </p>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -2,61 +2,118 @@ import { MessageBubble } from "./MessageBubble";
 import { TypingIndicator } from "./TypingIndicator";
 import { ModelSelector } from "./ModelSelector";
 import { ParameterControl } from "./ParameterControl";
+import { FallbackSelector } from "./FallbackSelector";
+import { ContextMeter } from "./ContextMeter";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Send, Info } from "lucide-react";
+import { Send, Info, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { withAlpha } from "@/lib/participants";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useEffect, useRef } from "react";
+import type { TokenUsage, QueueStatus } from "@/services/api";
+import type { ContextUsage, TurnScore } from "@/services/runs";
+import { useModelContext } from "@/hooks/use-model-context";
 
 interface Message {
   id: string;
   content: string;
   timestamp: string;
-  sender?: "llm1" | "llm2";
+  sender?: string; // Participant id
+  name: string;
+  color: string;
+  moderator?: boolean;
+  interrupted?: boolean;
+  model?: string;
+  fallbackFrom?: string;
+  usage?: TokenUsage;
+  cost?: number | null;
+  score?: TurnScore;
+  edited?: boolean;
+  versionCount?: number;
+  activeVersion?: number;
+  isStreaming?: boolean; // The reply being generated
 }
 
 interface ChatPanelProps {
-  side: "llm1" | "llm2";
-  title: string;
+  participantId: string;
+  number: number; // Position in the participant list, shown in the avatar
+  name: string;
+  color: string;
   messages: Message[];
   isTyping: boolean;
+  typingSpeaker?: { name: string; color: string } | null; // Another participant generating
   isThinking?: boolean;
   isGenerating?: boolean;
+  queueStatus?: QueueStatus | null;
+  contextUsage?: ContextUsage | null; // Token budget of this participant's latest turn
   model: string;
   temperature: number;
   maxTokens: number;
   systemPrompt: string;
+  fallbackModels: string[];
   onModelChange: (model: string) => void;
   onTemperatureChange: (temp: number) => void;
   onMaxTokensChange: (tokens: number) => void;
   onSystemPromptChange: (prompt: string) => void;
+  onFallbackModelsChange: (models: string[]) => void;
+  onNameChange: (name: string) => void;
+  onColorChange: (color: string) => void;
+  onRemove?: () => void; // Omitted when the panel can't be removed
   onSendMessage: () => void;
-  currentTurn?: "llm1" | "llm2" | null;
+  onBranch?: (messageId: string) => void; // Forks a branch from a message
+  // Transcript changes, omitted while a turn is playing
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => Promise<boolean>;
+  onDeleteFrom?: (messageId: string) => void;
+  onSelectVersion?: (messageId: string, version: number) => void;
+  currentTurn?: string | null;
+  currentTurnName?: string;
   isRunning?: boolean;
 }
 
 export const ChatPanel = ({
-  side,
-  title,
+  participantId,
+  number,
+  name,
+  color,
   messages,
   isTyping,
+  typingSpeaker = null,
   model,
   temperature,
   maxTokens,
   systemPrompt,
+  fallbackModels,
   onModelChange,
   onTemperatureChange,
   onMaxTokensChange,
   onSystemPromptChange,
+  onFallbackModelsChange,
+  onNameChange,
+  onColorChange,
+  onRemove,
   onSendMessage,
+  onBranch,
+  onRegenerate,
+  onEditMessage,
+  onDeleteFrom,
+  onSelectVersion,
   currentTurn,
+  currentTurnName,
   isRunning = false,
   isThinking = false,
   isGenerating = false,
+  queueStatus = null,
+  contextUsage = null,
 }: ChatPanelProps) => {
+  // Replies may take up to half the model's context window (server max 32768)
+  const maxContext = useModelContext(model);
+  const maxTokensLimit = Math.min(32768, Math.floor((maxContext ?? 8192) / 2));
+
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -96,18 +153,44 @@ export const ChatPanel = ({
         "shadow-sm flex-shrink-0"
       )}>
         <div className="flex items-center gap-2">
-          <div className={cn(
-            "w-8 h-8 rounded-full flex items-center justify-center",
-            side === "llm1" ? "bg-llm1/10" : "bg-llm2/10"
-          )}>
-            <span className={cn(
-              "text-base font-bold",
-              side === "llm1" ? "text-llm1" : "text-llm2"
-            )}>
-              {side === "llm1" ? "1" : "2"}
+          <div
+            className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0"
+            style={{ backgroundColor: withAlpha(color, 0.1) }}
+          >
+            <span className="text-base font-bold" style={{ color }}>
+              {number}
             </span>
           </div>
-          <h2 className="text-base font-semibold text-foreground">{title}</h2>
+          <Input
+            value={name}
+            onChange={(e) => onNameChange(e.target.value)}
+            maxLength={60}
+            aria-label="Participant name"
+            className="h-8 text-base font-semibold border-transparent bg-transparent px-1.5 shadow-none hover:border-border focus:border-border"
+          />
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => onColorChange(e.target.value)}
+            aria-label="Participant colour"
+            title="Participant colour"
+            className="w-7 h-7 rounded cursor-pointer border-0 bg-transparent p-0 flex-shrink-0"
+          />
+          {onRemove && (
+            <Button
+              onClick={onRemove}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 flex-shrink-0 text-muted-foreground"
+              aria-label={`Remove ${name}`}
+              title="Remove participant"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        <div className="mt-1.5">
+          <ContextMeter usage={contextUsage} color={color} />
         </div>
       </div>
 
@@ -120,14 +203,38 @@ export const ChatPanel = ({
                 key={message.id}
                 message={message.content}
                 timestamp={message.timestamp}
-                side={message.sender || side}
-                panelSide={side}
+                name={message.name}
+                color={message.color}
+                isOwn={message.sender === participantId}
+                isModerator={message.moderator}
+                interrupted={message.interrupted}
+                model={message.model}
+                fallbackFrom={message.fallbackFrom}
+                usage={message.usage}
+                cost={message.cost}
+                score={message.score}
+                edited={message.edited}
+                versionCount={message.versionCount}
+                activeVersion={message.activeVersion}
+                onBranch={onBranch && !message.isStreaming ? () => onBranch(message.id) : undefined}
+                onRegenerate={onRegenerate && !message.isStreaming && !message.moderator ? () => onRegenerate(message.id) : undefined}
+                onEdit={onEditMessage && !message.isStreaming ? (content) => onEditMessage(message.id, content) : undefined}
+                onDelete={onDeleteFrom && !message.isStreaming ? () => onDeleteFrom(message.id) : undefined}
+                onSelectVersion={onSelectVersion && !message.isStreaming ? (version) => onSelectVersion(message.id, version) : undefined}
               />
             ))}
             <TypingIndicator 
-              side={side} 
+              color={typingSpeaker?.color ?? color}
+              isRightAligned={!typingSpeaker}
               isTyping={isThinking ? false : isTyping}
               isWaiting={isThinking}
+              label={
+                queueStatus
+                  ? `Queued (#${queueStatus.position}, waiting for ${queueStatus.waitingFor})...`
+                  : typingSpeaker && !isThinking
+                    ? `${typingSpeaker.name} is typing...`
+                    : undefined
+              }
             />
           </div>
         </ScrollArea>
@@ -137,7 +244,7 @@ export const ChatPanel = ({
       <div className="px-4 py-2.5 border-t border-border bg-card/50 backdrop-blur-sm space-y-2.5 flex-shrink-0">
         {/* Model, Temperature, and Max Tokens on same line */}
         <div className="grid grid-cols-3 gap-3 items-start">
-          <ModelSelector value={model} onChange={onModelChange} side={side} />
+          <ModelSelector value={model} onChange={onModelChange} participantId={participantId} />
           <div className="space-y-1.5">
             <div className="flex items-center justify-between gap-1.5 h-5">
               <div className="flex items-center gap-1.5">
@@ -183,7 +290,8 @@ export const ChatPanel = ({
                         <strong>Max Tokens</strong> limits response length:<br/>
                         • <strong>50-200</strong>: Very short responses<br/>
                         • <strong>500</strong>: Short, concise (default)<br/>
-                        • <strong>1000-2000</strong>: Longer, detailed responses
+                        • <strong>1000-2000</strong>: Longer, detailed responses<br/>
+                        At most half of the model's context window ({maxTokensLimit} here)
                       </p>
                     </TooltipContent>
                   </Tooltip>
@@ -196,20 +304,26 @@ export const ChatPanel = ({
               value={maxTokens}
               onChange={onMaxTokensChange}
               min={50}
-              max={500}
+              max={maxTokensLimit}
               step={50}
               type="input"
             />
           </div>
         </div>
 
+        <FallbackSelector
+          model={model}
+          value={fallbackModels}
+          onChange={onFallbackModelsChange}
+        />
+
         <div className="space-y-2.5">
           <div className="space-y-1.5">
-            <Label className="text-xs font-medium text-muted-foreground">System Prompt</Label>
+            <Label className="text-xs font-medium text-muted-foreground">Persona (System Prompt)</Label>
             <Textarea
               value={systemPrompt}
               onChange={(e) => onSystemPromptChange(e.target.value)}
-              placeholder="Enter system prompt (optional)..."
+              placeholder="Describe who this participant is and how they talk (optional)..."
               className={cn(
                 "min-h-[50px] text-xs resize-none transition-all",
                 "bg-muted/30 border-border/60",
@@ -222,22 +336,20 @@ export const ChatPanel = ({
             onClick={onSendMessage}
             className={cn(
               "w-full gap-2 h-10 font-semibold shadow-md hover:shadow-lg transition-all",
-              "rounded-lg",
-              side === "llm1" 
-                ? "bg-llm1 hover:bg-llm1/90 text-white active:bg-llm1/95" 
-                : "bg-llm2 hover:bg-llm2/90 text-white active:bg-llm2/95",
+              "rounded-lg text-white hover:opacity-90",
               "disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-sm"
             )}
+            style={{ backgroundColor: color }}
             size="default"
             disabled={
               isGenerating ||
               isTyping || 
-              (isRunning && currentTurn !== side)
+              (isRunning && currentTurn !== participantId)
             }
           >
             <Send className="w-4 h-4" />
-            {(isRunning && currentTurn !== side)
-              ? `Waiting for ${currentTurn === "llm1" ? "LLM 1" : "LLM 2"}...`
+            {(isRunning && currentTurn !== participantId)
+              ? `Waiting for ${currentTurnName ?? "the next speaker"}...`
               : "Send Message"
             }
           </Button>
@@ -0,0 +1,58 @@
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatTokens } from "@/lib/usage";
+import { withAlpha } from "@/lib/participants";
+import type { ContextUsage } from "@/services/runs";
+
+interface ContextMeterProps {
+  usage: ContextUsage | null; // Budget of the participant's latest turn
+  color: string;
+}
+
+const percentOf = (tokens: number, limit: number) => `${Math.min(100, (tokens / limit) * 100)}%`;
+
+/**
+ * How full the participant's context window was on their latest turn:
+ * system prompt, history and the space kept for the reply
+ */
+export const ContextMeter = ({ usage, color }: ContextMeterProps) => {
+  if (!usage) {
+    return (
+      <p className="text-[10px] text-muted-foreground">Context usage appears after this participant's first turn</p>
+    );
+  }
+
+  const used = usage.system + usage.history + usage.reply;
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="space-y-1 cursor-help">
+            <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+              <span>Context</span>
+              <span>
+                {usage.trimmed > 0 && (
+                  <span className="text-amber-600 dark:text-amber-500">{usage.trimmed} older left out · </span>
+                )}
+                ~{formatTokens(used)} / {formatTokens(usage.limit)}
+              </span>
+            </div>
+            <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-muted">
+              <div style={{ width: percentOf(usage.system, usage.limit), backgroundColor: withAlpha(color, 0.5) }} />
+              <div style={{ width: percentOf(usage.history, usage.limit), backgroundColor: color }} />
+              <div style={{ width: percentOf(usage.reply, usage.limit), backgroundColor: withAlpha(color, 0.25) }} />
+            </div>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent className="text-xs space-y-0.5">
+          <p><strong>System prompt:</strong> ~{usage.system} tokens</p>
+          <p><strong>History:</strong> ~{usage.history} tokens in {usage.messages} messages</p>
+          <p><strong>Reply:</strong> up to {usage.reply} tokens</p>
+          <p><strong>Context window:</strong> {usage.limit} tokens</p>
+          {usage.trimmed > 0 && (
+            <p className="text-muted-foreground">{usage.trimmed} older messages didn't fit and were left out</p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Check, GitBranch, MessageSquare, Pencil, PlayCircle, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { withAlpha } from "@/lib/participants";
+import { getConversationTitle } from "@/lib/conversations";
+import type { SavedConversation } from "@/services/conversations";
+import type { RunStatus } from "@/services/runs";
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  idle: "Not started",
+  running: "Running",
+  paused: "Paused",
+  stopped: "Stopped",
+  finished: "Finished",
+};
+
+interface ConversationListItemProps {
+  conversation: SavedConversation;
+  onOpen: () => void;
+  onReplay: () => void; // Plays the transcript back
+  onRename: (title: string) => Promise<boolean>; // Resolves true once saved
+  onDelete: () => void;
+}
+
+/**
+ * A saved conversation in the history: what it was about, who took part
+ * and how far it got, with rename and delete
+ */
+export const ConversationListItem = ({ conversation, onOpen, onReplay, onRename, onDelete }: ConversationListItemProps) => {
+  const [draft, setDraft] = useState<string | null>(null); // Title being edited
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const title = getConversationTitle(conversation);
+
+  const handleRename = async () => {
+    if (draft === null) return;
+    if (await onRename(draft.trim())) {
+      setDraft(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-2">
+      <div className="flex items-start gap-2">
+        {draft !== null ? (
+          <div className="flex-1 flex items-center gap-1.5">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleRename();
+                if (e.key === "Escape") setDraft(null);
+              }}
+              placeholder={conversation.topic || "Untitled conversation"}
+              maxLength={200}
+              autoFocus
+              className="h-8 text-sm"
+              aria-label="Conversation title"
+            />
+            <Button onClick={handleRename} variant="ghost" size="icon" className="h-8 w-8" aria-label="Save title">
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button onClick={() => setDraft(null)} variant="ghost" size="icon" className="h-8 w-8" aria-label="Cancel">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <button type="button" onClick={onOpen} className="flex-1 min-w-0 text-left group">
+            <h2 className="font-semibold truncate group-hover:underline">{title}</h2>
+            {conversation.title && conversation.topic && (
+              <p className="text-xs text-muted-foreground truncate">{conversation.topic}</p>
+            )}
+          </button>
+        )}
+        {draft === null && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              onClick={onReplay}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground"
+              aria-label={`Replay ${title}`}
+              title="Replay"
+              disabled={conversation.messageCount === 0}
+            >
+              <PlayCircle className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => setDraft(conversation.title)}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground"
+              aria-label={`Rename ${title}`}
+              title="Rename"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => setConfirmingDelete(true)}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+              aria-label={`Delete ${title}`}
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {conversation.participants.map(participant => (
+          <span
+            key={participant.id}
+            className="rounded-full px-2 py-0.5 text-[10px]"
+            style={{ color: participant.color, backgroundColor: withAlpha(participant.color, 0.1) }}
+          >
+            {participant.name} · {participant.model}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="outline" className="font-normal">{STATUS_LABELS[conversation.status]}</Badge>
+        {conversation.forkedFrom && (
+          <span className="inline-flex items-center gap-1">
+            <GitBranch className="w-3 h-3" />
+            {conversation.branchName}
+          </span>
+        )}
+        <span className="inline-flex items-center gap-1">
+          <MessageSquare className="w-3 h-3" />
+          {conversation.turnCount} {conversation.turnCount === 1 ? "turn" : "turns"}
+        </span>
+        <span className="ml-auto">{new Date(conversation.updatedAt).toLocaleString()}</span>
+      </div>
+
+      {confirmingDelete && (
+        <div className="flex items-center gap-2 pt-2 border-t border-border text-xs">
+          <span className="flex-1">Delete this conversation for good?</span>
+          <Button onClick={() => setConfirmingDelete(false)} variant="ghost" size="sm" className="h-7 text-xs">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              setConfirmingDelete(false);
+              onDelete();
+            }}
+            variant="destructive"
+            size="sm"
+            className="h-7 text-xs"
+          >
+            Delete
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { Download } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select";
+import type { ExportFormat } from "@/services/conversations";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "markdown", label: "Markdown (.md)" },
+  { value: "json", label: "JSON with settings (.json)" },
+  { value: "html", label: "Web page (.html)" },
+];
+
+/**
+ * Downloads the transcript in the chosen format. The select never keeps a
+ * value, so the same format can be picked again.
+ */
+export const ExportMenu = ({ onExport, disabled }: ExportMenuProps) => {
+  return (
+    <Select value="" onValueChange={(format) => onExport(format as ExportFormat)} disabled={disabled}>
+      <SelectTrigger className="h-9 w-auto gap-2 text-sm" aria-label="Export transcript">
+        <Download className="w-4 h-4" />
+        Export
+      </SelectTrigger>
+      <SelectContent>
+        {FORMATS.map(format => (
+          <SelectItem key={format.value} value={format.value}>
+            {format.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
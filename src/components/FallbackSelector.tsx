@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { fetchModels, type ProviderModels } from "@/services/api";
+
+interface FallbackSelectorProps {
+  model: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+/**
+ * Edits the ordered list of models tried when the primary model keeps failing
+ */
+export const FallbackSelector = ({ model, value, onChange }: FallbackSelectorProps) => {
+  const [providers, setProviders] = useState<ProviderModels[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchModels()
+      .then((result) => {
+        if (!cancelled) setProviders(result);
+      })
+      .catch(() => {
+        // ModelSelector already reports load failures
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const available = providers
+    .map((provider) => ({
+      ...provider,
+      models: provider.models.filter((m) => m.id !== model && !value.includes(m.id)),
+    }))
+    .filter((provider) => provider.models.length > 0);
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs font-medium text-muted-foreground">Fallback chain</Label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {value.map((fallback, index) => (
+          <Badge key={fallback} variant="secondary" className="gap-1 text-[10px] font-normal">
+            {index + 1}. {fallback}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((m) => m !== fallback))}
+              className="rounded-full hover:text-destructive"
+              aria-label={`Remove ${fallback} from fallback chain`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <Select value="" onValueChange={(added) => onChange([...value, added])}>
+          <SelectTrigger className="h-7 w-auto min-w-[8rem] text-xs bg-card border-border">
+            <SelectValue placeholder={value.length ? "Add another..." : "Add fallback..."} />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((provider) => (
+              <SelectGroup key={provider.id}>
+                <SelectLabel className="text-xs text-muted-foreground">{provider.name}</SelectLabel>
+                {provider.models.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -1,47 +1,153 @@
+import { Fragment } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, RotateCcw } from "lucide-react";
+import { Play, Pause, RotateCcw, Gavel, BookOpen, GitBranch, History } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatCost, formatTokens, type UsageTotals } from "@/lib/usage";
+import type { ExportFormat } from "@/services/conversations";
+import { AutoPlayControls, type AutoPlaySettings } from "./AutoPlayControls";
+import { ExportMenu } from "./ExportMenu";
+
+// Panel shown next to the participants' panels
+export type SidePanel = "judge" | "memory" | "branches";
+
+export interface ParticipantUsage {
+  id: string;
+  name: string;
+  color: string;
+  totals: UsageTotals;
+}
 
 interface GlobalControlsProps {
   isRunning: boolean;
-  currentTurn: "llm1" | "llm2" | null;
+  currentSpeaker: { name: string; color: string } | null;
   turnCount: number;
+  usage: {
+    participants: ParticipantUsage[];
+    total: UsageTotals;
+  };
+  autoPlay: AutoPlaySettings;
+  onAutoPlayChange: (settings: AutoPlaySettings) => void;
   onStart: () => void;
   onPause: () => void;
   onReset: () => void;
+  sidePanel: SidePanel | null;
+  onSidePanelChange: (panel: SidePanel | null) => void;
+  branchName: string | null; // Branch of the conversation being shown
+  onExport: (format: ExportFormat) => void;
+  canExport: boolean;
 }
 
 export const GlobalControls = ({
   isRunning,
-  currentTurn,
+  currentSpeaker,
   turnCount,
+  usage,
+  autoPlay,
+  onAutoPlayChange,
   onStart,
   onPause,
   onReset,
+  sidePanel,
+  onSidePanelChange,
+  branchName,
+  onExport,
+  canExport,
 }: GlobalControlsProps) => {
+  const togglePanel = (panel: SidePanel) => onSidePanelChange(sidePanel === panel ? null : panel);
+
   return (
     <div className="px-6 py-4 bg-card border-b border-border shadow-sm">
       <div className="flex items-center justify-between max-w-screen-xl mx-auto">
         <div className="flex items-center gap-4">
-          <h1 className="text-xl font-bold text-foreground">Dual LLM Conversation</h1>
+          <h1 className="text-xl font-bold text-foreground">LLM Conversation</h1>
           <Badge variant="secondary" className="text-xs">
             Turn {turnCount}
           </Badge>
-          {currentTurn && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="outline" className="text-xs font-normal gap-1.5 cursor-help">
+                  {usage.participants.map((participant, index) => (
+                    <Fragment key={participant.id}>
+                      {index > 0 && <span className="text-muted-foreground">+</span>}
+                      <span style={{ color: participant.color }}>{formatTokens(participant.totals.tokens)}</span>
+                    </Fragment>
+                  ))}
+                  <span className="text-muted-foreground">=</span>
+                  <span>{formatTokens(usage.total.tokens)} tokens</span>
+                  <span className="text-muted-foreground">·</span>
+                  <span>{formatCost(usage.total.cost)}{usage.total.hasUnpricedTurns && "+"}</span>
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="text-xs space-y-0.5">
+                {usage.participants.map(participant => (
+                  <p key={participant.id}>
+                    <strong>{participant.name}:</strong> {participant.totals.tokens} tokens · {formatCost(participant.totals.cost)}
+                  </p>
+                ))}
+                <p><strong>Total:</strong> {usage.total.tokens} tokens · {formatCost(usage.total.cost)}</p>
+                {usage.total.hasUnpricedTurns && (
+                  <p className="text-muted-foreground">+ Some turns used models without a known price</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          {currentSpeaker && (
             <Badge 
               variant="outline" 
-              className={currentTurn === "llm1" ? "border-llm1 text-llm1" : "border-llm2 text-llm2"}
+              style={{ borderColor: currentSpeaker.color, color: currentSpeaker.color }}
             >
-              Current: LLM {currentTurn === "llm1" ? "1" : "2"}
+              Current: {currentSpeaker.name}
             </Badge>
           )}
         </div>
 
         <div className="flex items-center gap-2">
+          <AutoPlayControls settings={autoPlay} onChange={onAutoPlayChange} />
+          <Button asChild variant="ghost" size="sm" className="gap-2" title="Past conversations">
+            <Link to="/history">
+              <History className="w-4 h-4" />
+              History
+            </Link>
+          </Button>
+          <ExportMenu onExport={onExport} disabled={!canExport} />
+          <Button
+            onClick={() => togglePanel("branches")}
+            variant={sidePanel === "branches" ? "secondary" : "outline"}
+            size="sm"
+            className="gap-2"
+            aria-pressed={sidePanel === "branches"}
+            title="Branches of this conversation"
+          >
+            <GitBranch className="w-4 h-4" />
+            {branchName ?? "Branches"}
+          </Button>
+          <Button
+            onClick={() => togglePanel("memory")}
+            variant={sidePanel === "memory" ? "secondary" : "outline"}
+            size="sm"
+            className="gap-2"
+            aria-pressed={sidePanel === "memory"}
+          >
+            <BookOpen className="w-4 h-4" />
+            Memory
+          </Button>
+          <Button
+            onClick={() => togglePanel("judge")}
+            variant={sidePanel === "judge" ? "secondary" : "outline"}
+            size="sm"
+            className="gap-2"
+            aria-pressed={sidePanel === "judge"}
+          >
+            <Gavel className="w-4 h-4" />
+            Judge
+          </Button>
           {!isRunning ? (
             <Button onClick={onStart} size="sm" className="gap-2">
               <Play className="w-4 h-4" />
-              Start Conversation
+              {turnCount > 0 ? "Resume" : "Start Conversation"}
             </Button>
           ) : (
             <Button onClick={onPause} variant="secondary" size="sm" className="gap-2">
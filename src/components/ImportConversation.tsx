@@ -0,0 +1,124 @@
+import { useRef, useState } from "react";
+import { FastForward, Loader2, RotateCcw, Upload, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  parseTranscript,
+  TRANSCRIPT_FORMAT_LABELS,
+  TranscriptImportError,
+  type ParsedTranscript,
+} from "@/lib/transcriptImport";
+import { toast } from "sonner";
+
+export type ImportMode = "continue" | "replay";
+
+interface ImportConversationProps {
+  onImport: (transcript: ParsedTranscript, mode: ImportMode) => Promise<void>;
+}
+
+/**
+ * Picks a transcript file, shows how its speakers map to participants and
+ * imports it to continue from the end or to replay from the start
+ */
+export const ImportConversation = ({ onImport }: ImportConversationProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [transcript, setTranscript] = useState<ParsedTranscript | null>(null);
+  const [importing, setImporting] = useState<ImportMode | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setTranscript(parseTranscript(await file.text(), file.name));
+      setFileName(file.name);
+    } catch (error) {
+      const message = error instanceof TranscriptImportError ? error.message : "The file could not be read";
+      toast.error(`Import failed: ${message}`);
+    } finally {
+      // Lets the same file be picked again
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!transcript) return;
+    setImporting(mode);
+    try {
+      await onImport(transcript, mode);
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const { messages } = transcript?.conversation ?? { messages: [] };
+  return (
+    <>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {!transcript ? (
+        <Button onClick={() => fileInput.current?.click()} variant="outline" size="sm" className="gap-2">
+          <Upload className="w-4 h-4" />
+          Import
+        </Button>
+      ) : (
+        <div className="fixed inset-x-0 top-20 z-50 mx-auto w-full max-w-md rounded-lg border border-border bg-card p-4 shadow-lg space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold truncate">{fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {TRANSCRIPT_FORMAT_LABELS[transcript.format]} · {messages.length} messages
+              </p>
+            </div>
+            <Button
+              onClick={() => setTranscript(null)}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground"
+              aria-label="Cancel import"
+              disabled={importing !== null}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {transcript.format !== "app" && (
+            <div className="flex flex-wrap gap-1.5">
+              {transcript.speakers.map(speaker => (
+                <Badge key={speaker.label} variant="outline" className="text-xs font-normal">
+                  {speaker.label} → {speaker.participantName}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={() => handleImport("continue")} disabled={importing !== null} size="sm" className="gap-2">
+              {importing === "continue" ? <Loader2 className="w-4 h-4 animate-spin" /> : <FastForward className="w-4 h-4" />}
+              Continue from the end
+            </Button>
+            <Button
+              onClick={() => handleImport("replay")}
+              disabled={importing !== null}
+              variant="secondary"
+              size="sm"
+              className="gap-2"
+            >
+              {importing === "replay" ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              Replay from the start
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Both open the conversation so you can pick models first. Continue carries on from the last message.
+            Replay keeps the opening message and has the participants play the rest again, in a branch next to
+            the imported conversation.
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Gavel, Loader2, Trophy, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { formatCost } from "@/lib/usage";
+import { MAX_CRITERIA, parseCriteria } from "@/lib/judge";
+import { FALLBACK_COLOR } from "@/lib/participants";
+import type { JudgeConfig, Standing, Verdict } from "@/services/runs";
+import { ModelSelector } from "./ModelSelector";
+
+interface JudgePanelProps {
+  judge: JudgeConfig | null;
+  onChange: (judge: JudgeConfig | null) => void;
+  onEnable: () => void;
+  standings: Standing[];
+  participants: { id: string; name: string; color: string }[];
+  verdict: Verdict | null;
+  verdictPending: boolean;
+  canRequestVerdict: boolean;
+  onRequestVerdict: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Sets up the optional judge and shows its running scores and final verdict
+ */
+export const JudgePanel = ({
+  judge,
+  onChange,
+  onEnable,
+  standings,
+  participants,
+  verdict,
+  verdictPending,
+  canRequestVerdict,
+  onRequestVerdict,
+  onClose,
+}: JudgePanelProps) => {
+  const [criteriaText, setCriteriaText] = useState(judge?.criteria.join(", ") ?? "");
+
+  // Follow criteria set elsewhere, e.g. from the run's snapshot
+  const criteriaKey = judge?.criteria.join("\n");
+  useEffect(() => {
+    if (judge && criteriaKey !== parseCriteria(criteriaText).join("\n")) {
+      setCriteriaText(judge.criteria.join(", "));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [criteriaKey]);
+
+  const handleCriteriaChange = (text: string) => {
+    setCriteriaText(text);
+    const criteria = parseCriteria(text);
+    if (judge && criteria.length > 0 && criteria.length <= MAX_CRITERIA) {
+      onChange({ ...judge, criteria });
+    }
+  };
+
+  const getColor = (id: string | null) => participants.find(p => p.id === id)?.color ?? FALLBACK_COLOR;
+  const best = standings[0]?.average ?? null;
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden bg-card/30">
+      <div className="px-4 py-2 border-b border-border bg-card/50 flex items-center gap-2 flex-shrink-0">
+        <Gavel className="w-4 h-4 text-muted-foreground" />
+        <h2 className="text-base font-semibold flex-1">Judge</h2>
+        <Button
+          onClick={onClose}
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground"
+          aria-label="Hide judge panel"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4 space-y-4">
+          {!judge ? (
+            <div className="space-y-3 text-xs text-muted-foreground">
+              <p>
+                A judge model scores every turn on your criteria and decides who argued best
+                when auto-play finishes.
+              </p>
+              <Button onClick={onEnable} size="sm" className="gap-2">
+                <Gavel className="w-4 h-4" />
+                Add a judge
+              </Button>
+            </div>
+          ) : (
+            <>
+              {/* Standings */}
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium text-muted-foreground">Average score</Label>
+                {standings.map(entry => (
+                  <div key={entry.id} className="flex items-center gap-2 text-xs">
+                    <span className="flex-1 truncate font-medium" style={{ color: getColor(entry.id) }}>
+                      {entry.name}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {entry.scoredTurns} {entry.scoredTurns === 1 ? "turn" : "turns"}
+                    </span>
+                    <span className={cn("w-8 text-right font-semibold", entry.average !== null && entry.average === best && "text-primary")}>
+                      {entry.average ?? "–"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Verdict */}
+              <div className="space-y-2">
+                {verdict && (
+                  <div className="rounded-lg border border-border bg-muted/30 p-3 space-y-1.5 text-xs">
+                    <div className="flex items-center gap-1.5 font-semibold">
+                      <Trophy className="w-4 h-4" style={{ color: getColor(verdict.winner) }} />
+                      {verdict.winnerName ? (
+                        <span style={{ color: getColor(verdict.winner) }}>{verdict.winnerName} wins</span>
+                      ) : (
+                        <span>It's a tie</span>
+                      )}
+                    </div>
+                    {verdict.rationale && <p className="leading-relaxed">{verdict.rationale}</p>}
+                    <p className="text-[10px] text-muted-foreground">
+                      After {verdict.turnCount} turns · {verdict.model}
+                      {verdict.cost != null && ` · ${formatCost(verdict.cost)}`}
+                    </p>
+                  </div>
+                )}
+                <Button
+                  onClick={onRequestVerdict}
+                  disabled={!canRequestVerdict || verdictPending}
+                  variant="secondary"
+                  size="sm"
+                  className="w-full gap-2"
+                >
+                  {verdictPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trophy className="w-4 h-4" />}
+                  {verdictPending ? "Deciding..." : verdict ? "Ask again" : "Ask for a verdict"}
+                </Button>
+              </div>
+
+              {/* Settings */}
+              <div className="space-y-3 pt-3 border-t border-border">
+                <ModelSelector
+                  value={judge.model}
+                  onChange={(model) => onChange({ ...judge, model })}
+                  participantId="judge"
+                />
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium text-muted-foreground">Criteria</Label>
+                  <Input
+                    value={criteriaText}
+                    onChange={(e) => handleCriteriaChange(e.target.value)}
+                    placeholder="relevance, persuasiveness, factuality"
+                    className="h-8 text-xs"
+                  />
+                  <p className="text-[10px] text-muted-foreground">
+                    Comma-separated, up to {MAX_CRITERIA}. Each turn is scored 1 to 10 on each.
+                  </p>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium text-muted-foreground">Rubric (System Prompt)</Label>
+                  <Textarea
+                    value={judge.rubric}
+                    onChange={(e) => onChange({ ...judge, rubric: e.target.value })}
+                    placeholder="How the judge should weigh the arguments (optional; a fair debate judge by default)..."
+                    maxLength={20000}
+                    className={cn(
+                      "min-h-[80px] text-xs resize-none",
+                      "bg-muted/30 border-border/60",
+                      "focus:bg-background focus:border-primary/40 focus:ring-2 focus:ring-primary/10",
+                      "placeholder:text-muted-foreground/60"
+                    )}
+                  />
+                </div>
+                <Button
+                  onClick={() => onChange(null)}
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-muted-foreground"
+                >
+                  Remove judge
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
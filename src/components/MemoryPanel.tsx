@@ -0,0 +1,123 @@
+import { BookOpen, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { formatCost } from "@/lib/usage";
+import { MAX_RECENT_MESSAGES, MIN_RECENT_MESSAGES } from "@/lib/memory";
+import type { ConversationSummary, SummarizerConfig } from "@/services/runs";
+import { ModelSelector } from "./ModelSelector";
+
+interface MemoryPanelProps {
+  summarizer: SummarizerConfig | null;
+  onChange: (summarizer: SummarizerConfig | null) => void;
+  onEnable: () => void;
+  summary: ConversationSummary | null;
+  onClose: () => void;
+}
+
+/**
+ * Sets up summary memory and shows the summary participants currently get
+ */
+export const MemoryPanel = ({ summarizer, onChange, onEnable, summary, onClose }: MemoryPanelProps) => {
+  return (
+    <div className="flex flex-col h-full overflow-hidden bg-card/30">
+      <div className="px-4 py-2 border-b border-border bg-card/50 flex items-center gap-2 flex-shrink-0">
+        <BookOpen className="w-4 h-4 text-muted-foreground" />
+        <h2 className="text-base font-semibold flex-1">Memory</h2>
+        <Button
+          onClick={onClose}
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground"
+          aria-label="Hide memory panel"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4 space-y-4">
+          {!summarizer ? (
+            <div className="space-y-3 text-xs text-muted-foreground">
+              <p>
+                Participants see as much of the latest conversation as fits their model's context window,
+                so in long conversations they forget how it started.
+              </p>
+              <p>
+                With summary memory, a summariser model condenses older messages into a running summary
+                that every participant gets, and the latest messages stay word for word.
+              </p>
+              <Button onClick={onEnable} size="sm" className="gap-2">
+                <BookOpen className="w-4 h-4" />
+                Use summary memory
+              </Button>
+            </div>
+          ) : (
+            <>
+              {/* Current summary */}
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium text-muted-foreground">Summary</Label>
+                {summary ? (
+                  <div className="rounded-lg border border-border bg-muted/30 p-3 space-y-1.5 text-xs">
+                    <p className="whitespace-pre-wrap leading-relaxed">{summary.content}</p>
+                    <p className="text-[10px] text-muted-foreground">
+                      Covers the first {summary.coveredCount} messages · {summary.model}
+                      {summary.cost != null && ` · ${formatCost(summary.cost)} so far`}
+                      {" · "}{new Date(summary.updatedAt).toLocaleTimeString()}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No summary yet. It is written once messages start dropping out of the latest{" "}
+                    {summarizer.recentMessages}.
+                  </p>
+                )}
+              </div>
+
+              {/* Settings */}
+              <div className="space-y-3 pt-3 border-t border-border">
+                <ModelSelector
+                  value={summarizer.model}
+                  onChange={(model) => onChange({ ...summarizer, model })}
+                  participantId="summarizer"
+                />
+                <div className="space-y-1.5">
+                  <Label htmlFor="memory-recent-messages" className="text-xs font-medium text-muted-foreground">
+                    Recent messages kept word for word
+                  </Label>
+                  <Input
+                    id="memory-recent-messages"
+                    type="number"
+                    value={summarizer.recentMessages}
+                    onChange={(e) =>
+                      onChange({
+                        ...summarizer,
+                        recentMessages: Math.min(
+                          MAX_RECENT_MESSAGES,
+                          Math.max(MIN_RECENT_MESSAGES, parseInt(e.target.value) || MIN_RECENT_MESSAGES)
+                        ),
+                      })
+                    }
+                    min={MIN_RECENT_MESSAGES}
+                    max={MAX_RECENT_MESSAGES}
+                    step={1}
+                    className="h-8 w-20 text-xs"
+                  />
+                </div>
+                <Button
+                  onClick={() => onChange(null)}
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-muted-foreground"
+                >
+                  Turn off summary memory
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
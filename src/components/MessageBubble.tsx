@@ -1,67 +1,266 @@
-import { Bot } from "lucide-react";
+import { useState, type ComponentType } from "react";
+import { Bot, ChevronLeft, ChevronRight, Gavel, GitBranch, Megaphone, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
+import type { TokenUsage } from "@/services/api";
+import type { TurnScore } from "@/services/runs";
+import { formatCost } from "@/lib/usage";
+import { withAlpha } from "@/lib/participants";
 
 interface MessageBubbleProps {
   message: string;
   timestamp: string;
-  side: "llm1" | "llm2";
-  panelSide?: "llm1" | "llm2"; // Which panel is showing this message
+  name: string; // Participant who wrote the message
+  color: string; // That participant's colour
+  isOwn?: boolean; // Written by the participant whose panel shows it
+  isModerator?: boolean; // Written by the human moderator
+  interrupted?: boolean; // Generation was cancelled before the reply finished
+  model?: string; // Model that produced the reply
+  fallbackFrom?: string; // Configured model that failed before the fallback replied
+  usage?: TokenUsage;
+  cost?: number | null;
+  score?: TurnScore; // Judge's scores for this turn
+  edited?: boolean; // Text was changed by hand
+  versionCount?: number; // Versions of a regenerated reply
+  activeVersion?: number; // Index of the version shown
+  // Per-message actions; each is omitted while it isn't available
+  onBranch?: () => void;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => Promise<boolean>; // Resolves true once saved
+  onDelete?: () => void; // Deletes this message and everything after it
+  onSelectVersion?: (version: number) => void;
 }
 
-export const MessageBubble = ({ message, timestamp, side, panelSide }: MessageBubbleProps) => {
-  const isRightAligned = side === "llm2";
-  const isOwnMessage = panelSide === side; // Message from this panel's LLM
-  
+const ActionButton = ({ icon: Icon, label, onClick }: { icon: ComponentType<{ className?: string }>; label: string; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="ml-1.5 inline-flex align-middle text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-foreground transition-opacity"
+    title={label}
+    aria-label={label}
+  >
+    <Icon className="w-3 h-3" />
+  </button>
+);
+
+export const MessageBubble = ({
+  message,
+  timestamp,
+  name,
+  color,
+  isOwn = false,
+  isModerator = false,
+  interrupted = false,
+  model,
+  fallbackFrom,
+  usage,
+  cost,
+  score,
+  edited = false,
+  versionCount = 1,
+  activeVersion = 0,
+  onBranch,
+  onRegenerate,
+  onEdit,
+  onDelete,
+  onSelectVersion,
+}: MessageBubbleProps) => {
+  const isRightAligned = isOwn;
+  const [draft, setDraft] = useState<string | null>(null); // Text being edited
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const handleSave = async () => {
+    if (!onEdit || !draft?.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      if (await onEdit(draft.trim())) {
+        setDraft(null);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const editor = draft !== null && (
+    <div className="space-y-1.5">
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && setDraft(null)}
+        autoFocus
+        className="min-h-[80px] text-xs bg-background"
+        aria-label="Message text"
+      />
+      <div className="flex justify-end gap-1.5">
+        <Button onClick={() => setDraft(null)} variant="ghost" size="sm" className="h-7 text-xs">
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!draft.trim() || isSaving} size="sm" className="h-7 text-xs">
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  const actions = confirmingDelete && onDelete ? (
+    <span className="ml-1.5 inline-flex items-center gap-1.5">
+      <button
+        type="button"
+        onClick={() => {
+          setConfirmingDelete(false);
+          onDelete();
+        }}
+        className="font-medium text-destructive hover:underline"
+      >
+        Delete this and later messages
+      </button>
+      <button type="button" onClick={() => setConfirmingDelete(false)} className="hover:underline">
+        Cancel
+      </button>
+    </span>
+  ) : (
+    <>
+      {versionCount > 1 && (
+        <span className="ml-1.5 inline-flex items-center align-middle gap-0.5">
+          <button
+            type="button"
+            onClick={() => onSelectVersion?.(activeVersion - 1)}
+            disabled={!onSelectVersion || activeVersion === 0}
+            className="disabled:opacity-40 hover:text-foreground"
+            aria-label="Previous version"
+          >
+            <ChevronLeft className="w-3 h-3" />
+          </button>
+          {activeVersion + 1}/{versionCount}
+          <button
+            type="button"
+            onClick={() => onSelectVersion?.(activeVersion + 1)}
+            disabled={!onSelectVersion || activeVersion === versionCount - 1}
+            className="disabled:opacity-40 hover:text-foreground"
+            aria-label="Next version"
+          >
+            <ChevronRight className="w-3 h-3" />
+          </button>
+        </span>
+      )}
+      {onRegenerate && <ActionButton icon={RefreshCw} label="Regenerate" onClick={onRegenerate} />}
+      {onEdit && <ActionButton icon={Pencil} label="Edit" onClick={() => setDraft(message)} />}
+      {onDelete && <ActionButton icon={Trash2} label="Delete from here" onClick={() => setConfirmingDelete(true)} />}
+      {onBranch && <ActionButton icon={GitBranch} label="Branch from here" onClick={onBranch} />}
+    </>
+  );
+
+  // Moderator messages sit across the middle of the conversation
+  if (isModerator) {
+    return (
+      <div className="group flex justify-center animate-in fade-in slide-in-from-bottom-2 duration-300">
+        <div
+          className="max-w-[90%] rounded-xl border border-dashed px-3 py-2 text-xs text-foreground"
+          style={{ borderColor: color, backgroundColor: withAlpha(color, 0.08) }}
+        >
+          <div className="flex items-center gap-1.5 mb-0.5 text-[10px] font-semibold uppercase tracking-wide" style={{ color }}>
+            <Megaphone className="w-3 h-3" />
+            {name}
+            <span className="font-normal normal-case tracking-normal text-muted-foreground">
+              · {timestamp}
+              {edited && " · Edited"}
+              {actions}
+            </span>
+          </div>
+          {editor || <p className="whitespace-pre-wrap leading-relaxed">{message}</p>}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={cn(
-      "flex items-start gap-3 animate-in fade-in slide-in-from-bottom-2 duration-300",
+      "group flex items-start gap-3 animate-in fade-in slide-in-from-bottom-2 duration-300",
       isRightAligned && "flex-row-reverse"
     )}>
-      <div className={cn(
-        "w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0",
-        side === "llm1" ? "bg-llm1/10 text-llm1" : "bg-llm2/10 text-llm2"
-      )}>
+      <div
+        className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0"
+        style={{ backgroundColor: withAlpha(color, 0.1), color }}
+        title={name}
+      >
         <Bot className="w-4 h-4" />
       </div>
       <div className={cn(
         "flex-1 min-w-0",
         isRightAligned && "flex flex-col items-end"
       )}>
-        <div className={cn(
-          "rounded-2xl px-3 py-2 shadow-sm backdrop-blur-sm",
-          side === "llm1" 
-            ? isOwnMessage
-              ? "bg-llm1/15 border border-llm1/20 dark:bg-llm1/25" 
-              : "bg-llm1/5 border border-llm1/10"
-            : isOwnMessage
-              ? "bg-llm2/15 border border-llm2/20 dark:bg-llm2/25"
-              : "bg-llm2/5 border border-llm2/10",
-          isRightAligned && "max-w-[80%]"
-        )}>
-          <div className="text-xs text-foreground leading-relaxed prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-strong:text-foreground prose-strong:font-semibold prose-ul:my-1 prose-ol:my-1 prose-li:my-0">
-            <ReactMarkdown
-              components={{
-                p: ({ children }) => <p className="mb-1 last:mb-0">{children}</p>,
-                strong: ({ children }) => <strong className="font-semibold text-foreground">{children}</strong>,
-                em: ({ children }) => <em className="italic">{children}</em>,
-                ul: ({ children }) => <ul className="list-disc list-inside my-1 space-y-0">{children}</ul>,
-                ol: ({ children }) => <ol className="list-decimal list-inside my-1 space-y-0">{children}</ol>,
-                li: ({ children }) => <li className="my-0">{children}</li>,
-                code: ({ children }) => <code className="bg-muted px-1 py-0.5 rounded text-[0.7rem] font-mono">{children}</code>,
-                h1: ({ children }) => <h1 className="text-sm font-bold mt-2 mb-1">{children}</h1>,
-                h2: ({ children }) => <h2 className="text-xs font-bold mt-2 mb-1">{children}</h2>,
-                h3: ({ children }) => <h3 className="text-xs font-semibold mt-1 mb-0.5">{children}</h3>,
-              }}
-            >
-              {message}
-            </ReactMarkdown>
-          </div>
+        {!isOwn && (
+          <span className="text-[10px] font-semibold mb-0.5 block" style={{ color }}>
+            {name}
+          </span>
+        )}
+        <div
+          className={cn(
+            "rounded-2xl px-3 py-2 shadow-sm backdrop-blur-sm border",
+            isRightAligned && "max-w-[80%]",
+            editor && "w-full"
+          )}
+          style={{
+            backgroundColor: withAlpha(color, isOwn ? 0.15 : 0.05),
+            borderColor: withAlpha(color, isOwn ? 0.2 : 0.1),
+          }}
+        >
+          {editor || (
+            <div className="text-xs text-foreground leading-relaxed prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-strong:text-foreground prose-strong:font-semibold prose-ul:my-1 prose-ol:my-1 prose-li:my-0">
+              <ReactMarkdown
+                components={{
+                  p: ({ children }) => <p className="mb-1 last:mb-0">{children}</p>,
+                  strong: ({ children }) => <strong className="font-semibold text-foreground">{children}</strong>,
+                  em: ({ children }) => <em className="italic">{children}</em>,
+                  ul: ({ children }) => <ul className="list-disc list-inside my-1 space-y-0">{children}</ul>,
+                  ol: ({ children }) => <ol className="list-decimal list-inside my-1 space-y-0">{children}</ol>,
+                  li: ({ children }) => <li className="my-0">{children}</li>,
+                  code: ({ children }) => <code className="bg-muted px-1 py-0.5 rounded text-[0.7rem] font-mono">{children}</code>,
+                  h1: ({ children }) => <h1 className="text-sm font-bold mt-2 mb-1">{children}</h1>,
+                  h2: ({ children }) => <h2 className="text-xs font-bold mt-2 mb-1">{children}</h2>,
+                  h3: ({ children }) => <h3 className="text-xs font-semibold mt-1 mb-0.5">{children}</h3>,
+                }}
+              >
+                {message}
+              </ReactMarkdown>
+            </div>
+          )}
         </div>
         <span className={cn(
           "text-[10px] text-muted-foreground mt-1 block",
           isRightAligned && "text-right"
-        )}>{timestamp}</span>
+        )}>
+          {timestamp}
+          {model && <span className="ml-1.5">· {model}</span>}
+          {fallbackFrom && <span className="ml-1"> (fallback from {fallbackFrom})</span>}
+          {usage && (
+            <span
+              className="ml-1.5"
+              title={`${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${usage.estimated ? " (estimated)" : ""}`}
+            >
+              · {usage.estimated && "~"}{usage.totalTokens} tokens
+              {cost != null && ` · ${formatCost(cost)}`}
+            </span>
+          )}
+          {interrupted && <span className="ml-1.5 italic">· Interrupted</span>}
+          {edited && <span className="ml-1.5 italic">· Edited</span>}
+          {actions}
+        </span>
+        {score && (
+          <span
+            className="inline-flex items-center gap-1 text-[10px] text-muted-foreground mt-0.5 cursor-help"
+            title={score.rationale || undefined}
+          >
+            <Gavel className="w-3 h-3" />
+            <span className="font-semibold text-foreground">{score.average}</span>
+            <span>
+              ({Object.entries(score.scores).map(([criterion, value]) => `${criterion} ${value}`).join(" · ")})
+            </span>
+          </span>
+        )}
       </div>
     </div>
   );
@@ -1,13 +1,52 @@
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useEffect, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { fetchModels, type ProviderModels } from "@/services/api";
 
 interface ModelSelectorProps {
   value: string;
   onChange: (value: string) => void;
-  side: "llm1" | "llm2";
+  participantId: string;
 }
 
-export const ModelSelector = ({ value, onChange, side }: ModelSelectorProps) => {
+export const ModelSelector = ({ value, onChange, participantId }: ModelSelectorProps) => {
+  const [providers, setProviders] = useState<ProviderModels[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Load the model list from the server (includes discovered local models)
+  useEffect(() => {
+    let cancelled = false;
+    fetchModels()
+      .then((result) => {
+        if (!cancelled) {
+          setProviders(result);
+          setLoadError(null);
+        }
+      })
+      .catch((error) => {
+        console.error(`[${participantId}] Failed to load models:`, error);
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : "Failed to load models");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [participantId]);
+
+  const visibleProviders = providers.filter((provider) => provider.models.length > 0);
+  const isKnownModel = visibleProviders.some((provider) =>
+    provider.models.some((model) => model.id === value)
+  );
+
   return (
     <div className="space-y-1.5">
       <Label className="text-xs font-medium text-muted-foreground">Model</Label>
@@ -16,14 +55,28 @@ export const ModelSelector = ({ value, onChange, side }: ModelSelectorProps) =>
           <SelectValue placeholder="Select model" />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="groq-llama-8b">Groq Llama 3.1 8B - FREE ⭐⭐⭐</SelectItem>
-          <SelectItem value="groq-mixtral">Groq Mixtral 8x7B - FREE ⭐⭐</SelectItem>
-          <SelectItem value="groq-llama-70b">Groq Llama 3.1 70B - FREE ⭐</SelectItem>
-          <SelectItem value="deepseek-chat">DeepSeek Chat - Free Tier Available ⭐</SelectItem>
-          <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo (OpenAI)</SelectItem>
-          <SelectItem value="gpt-4o">GPT-4o (OpenAI)</SelectItem>
-          <SelectItem value="gpt-4o-mini">GPT-4o Mini (OpenAI)</SelectItem>
-          <SelectItem value="gpt-4">GPT-4 (OpenAI) - Requires Access</SelectItem>
+          {/* Keep the current model selectable even if the server doesn't list it */}
+          {!isKnownModel && value && (
+            <SelectItem value={value}>{value}</SelectItem>
+          )}
+          {visibleProviders.map((provider) => (
+            <SelectGroup key={provider.id}>
+              <SelectLabel className="text-xs text-muted-foreground">
+                {provider.name}
+                {!provider.configured && " - API key not configured"}
+              </SelectLabel>
+              {provider.models.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+          {loadError && (
+            <div className="px-2 py-1.5 text-xs text-destructive">
+              Could not load models: {loadError}
+            </div>
+          )}
         </SelectContent>
       </Select>
     </div>
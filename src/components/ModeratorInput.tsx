@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Megaphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+interface ModeratorInputProps {
+  // Resolves true once the message is in the transcript
+  onSend: (content: string) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+/**
+ * Lets the human step into the conversation, e.g. "now argue the opposite".
+ * Every participant sees the message from their next turn.
+ */
+export const ModeratorInput = ({ onSend, disabled = false }: ModeratorInputProps) => {
+  const [content, setContent] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    const text = content.trim();
+    if (!text || isSending) return;
+    setIsSending(true);
+    try {
+      if (await onSend(text)) {
+        setContent("");
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-3 border-t border-border bg-card/50 backdrop-blur-sm flex-shrink-0">
+      <div className="flex items-end gap-3 max-w-screen-xl mx-auto">
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, Shift+Enter starts a new line
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder={'Step in as the moderator, e.g. "Now argue the opposite" or "Consider this fact: ..."'}
+          maxLength={5000}
+          disabled={disabled}
+          className={cn(
+            "min-h-[40px] max-h-32 text-xs resize-none",
+            "bg-muted/30 border-border/60",
+            "focus:bg-background focus:border-primary/40 focus:ring-2 focus:ring-primary/10",
+            "placeholder:text-muted-foreground/60"
+          )}
+          rows={1}
+        />
+        <Button
+          onClick={handleSend}
+          disabled={disabled || isSending || !content.trim()}
+          variant="secondary"
+          className="gap-2 h-10 flex-shrink-0"
+        >
+          <Megaphone className="w-4 h-4" />
+          Interject
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from "react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { withAlpha } from "@/lib/participants";
+import type { TokenUsage } from "@/services/api";
+import type { TurnScore } from "@/services/runs";
+import { MessageBubble } from "./MessageBubble";
+import { TypingIndicator } from "./TypingIndicator";
+
+export interface ReplayMessage {
+  id: string;
+  content: string;
+  timestamp: string;
+  sender?: string; // Participant id
+  name: string;
+  color: string;
+  moderator?: boolean;
+  interrupted?: boolean;
+  model?: string;
+  fallbackFrom?: string;
+  usage?: TokenUsage;
+  cost?: number | null;
+  score?: TurnScore;
+  edited?: boolean;
+}
+
+interface ReplayPanelProps {
+  participantId: string;
+  number: number; // Position in the participant list, shown in the avatar
+  name: string;
+  color: string;
+  model: string;
+  messages: ReplayMessage[];
+  isThinking: boolean; // This participant is about to reply
+  typingSpeaker: { name: string; color: string } | null; // Another participant replying
+}
+
+/**
+ * A participant's panel during a replay: the chat panel's transcript and
+ * indicators without its controls
+ */
+export const ReplayPanel = ({
+  participantId,
+  number,
+  name,
+  color,
+  model,
+  messages,
+  isThinking,
+  typingSpeaker,
+}: ReplayPanelProps) => {
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    const viewport = scrollAreaRef.current?.querySelector("[data-radix-scroll-area-viewport]");
+    if (viewport) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+  }, [messages, isThinking, typingSpeaker]);
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      <div className="px-4 py-2 border-b border-border bg-card/50 backdrop-blur-sm shadow-sm flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <div
+            className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0"
+            style={{ backgroundColor: withAlpha(color, 0.1) }}
+          >
+            <span className="text-base font-bold" style={{ color }}>
+              {number}
+            </span>
+          </div>
+          <span className="text-base font-semibold truncate">{name}</span>
+          <span className="ml-auto text-xs text-muted-foreground truncate">{model}</span>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-hidden relative">
+        <ScrollArea ref={scrollAreaRef} className="h-full w-full">
+          <div className="px-4 py-3 space-y-3">
+            {messages.map((message) => (
+              <MessageBubble
+                key={message.id}
+                message={message.content}
+                timestamp={message.timestamp}
+                name={message.name}
+                color={message.color}
+                isOwn={message.sender === participantId}
+                isModerator={message.moderator}
+                interrupted={message.interrupted}
+                model={message.model}
+                fallbackFrom={message.fallbackFrom}
+                usage={message.usage}
+                cost={message.cost}
+                score={message.score}
+                edited={message.edited}
+              />
+            ))}
+            <TypingIndicator
+              color={typingSpeaker?.color ?? color}
+              isRightAligned={!typingSpeaker}
+              isTyping={Boolean(typingSpeaker)}
+              isWaiting={isThinking}
+              label={typingSpeaker ? `${typingSpeaker.name} is typing...` : undefined}
+            />
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
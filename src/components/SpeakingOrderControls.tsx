@@ -0,0 +1,130 @@
+import { Fragment } from "react";
+import { ArrowRight, Plus, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { withAlpha } from "@/lib/participants";
+import type { TurnOrder } from "@/services/runs";
+
+interface SpeakerInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface SpeakingOrderControlsProps {
+  participants: SpeakerInfo[];
+  turnOrder: TurnOrder;
+  speakingOrder: string[]; // Participant ids, used when turnOrder is custom
+  currentTurn: string | null;
+  onChange: (turnOrder: TurnOrder, speakingOrder: string[]) => void;
+  onAddParticipant: () => void;
+  canAddParticipant: boolean;
+}
+
+/**
+ * Who speaks when: round-robin in panel order, or a custom sequence in
+ * which a participant may appear more than once
+ */
+export const SpeakingOrderControls = ({
+  participants,
+  turnOrder,
+  speakingOrder,
+  currentTurn,
+  onChange,
+  onAddParticipant,
+  canAddParticipant,
+}: SpeakingOrderControlsProps) => {
+  const isCustom = turnOrder === "custom";
+  const order = isCustom ? speakingOrder : participants.map(p => p.id);
+
+  const handleTurnOrderChange = (value: TurnOrder) => {
+    // Start a custom order from the current round-robin one
+    onChange(value, value === "custom" && speakingOrder.length === 0 ? participants.map(p => p.id) : speakingOrder);
+  };
+
+  return (
+    <div className="px-6 py-2 border-b border-border bg-card/50">
+      <div className="flex items-center gap-3 flex-wrap max-w-screen-xl mx-auto">
+        <Label className="text-xs font-medium text-muted-foreground">Speaking order</Label>
+        <Select value={turnOrder} onValueChange={handleTurnOrderChange}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="round-robin">Round-robin</SelectItem>
+            <SelectItem value="custom">Custom</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {order.map((id, index) => {
+            const participant = participants.find(p => p.id === id);
+            if (!participant) return null;
+            return (
+              <Fragment key={`${id}-${index}`}>
+                {index > 0 && <ArrowRight className="w-3 h-3 text-muted-foreground" />}
+                <span
+                  className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs"
+                  style={{
+                    borderColor: participant.color,
+                    color: participant.color,
+                    backgroundColor: id === currentTurn ? withAlpha(participant.color, 0.15) : undefined,
+                  }}
+                >
+                  {participant.name}
+                  {isCustom && order.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => onChange(turnOrder, order.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${participant.name} from the speaking order`}
+                      className="hover:opacity-70"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              </Fragment>
+            );
+          })}
+        </div>
+
+        {isCustom && (
+          <div className="flex items-center gap-1">
+            {participants.map(participant => (
+              <Button
+                key={participant.id}
+                onClick={() => onChange(turnOrder, [...order, participant.id])}
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-xs"
+                style={{ color: participant.color }}
+                title={`Add ${participant.name} to the end of the order`}
+              >
+                <Plus className="w-3 h-3" />
+                {participant.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <Button
+          onClick={onAddParticipant}
+          disabled={!canAddParticipant}
+          variant="outline"
+          size="sm"
+          className="ml-auto h-8 gap-2"
+        >
+          <UserPlus className="w-4 h-4" />
+          Add participant
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Flag, Handshake } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { StopConditions, StopReason } from "@/services/runs";
+
+// Matches the server's limits in server/schemas/run.js
+const MIN_TOKEN_LIMIT = 100;
+const MAX_TOKEN_LIMIT = 10_000_000;
+
+// Share of repeated phrases that ends the run; lower is stricter
+const REPETITION_LEVELS = [
+  { value: "0.4", label: "Strict (40%)" },
+  { value: "0.6", label: "Normal (60%)" },
+  { value: "0.8", label: "Lenient (80%)" },
+];
+
+const RULE_LABELS: Record<StopReason["rule"], string> = {
+  max_turns: "Turn limit",
+  max_tokens: "Token limit",
+  stop_phrase: "Stop phrase",
+  repetition: "Repetition",
+  agreement: "Agreement",
+};
+
+interface StopConditionsControlsProps {
+  stopConditions: StopConditions;
+  onChange: (stopConditions: StopConditions) => void;
+  stopReason: StopReason | null; // Rule that ended the run, if one did
+}
+
+/**
+ * Rules that end auto-play on their own, next to Max turns in the header,
+ * and which one ended the run
+ */
+export const StopConditionsControls = ({ stopConditions, onChange, stopReason }: StopConditionsControlsProps) => {
+  // Typed as text and applied once complete, so partial numbers aren't sent
+  const [tokenLimit, setTokenLimit] = useState(stopConditions.maxTokens?.toString() ?? "");
+
+  useEffect(() => {
+    setTokenLimit(stopConditions.maxTokens?.toString() ?? "");
+  }, [stopConditions.maxTokens]);
+
+  const applyTokenLimit = () => {
+    const value = parseInt(tokenLimit);
+    const maxTokens = Number.isFinite(value)
+      ? Math.min(MAX_TOKEN_LIMIT, Math.max(MIN_TOKEN_LIMIT, value))
+      : null;
+    setTokenLimit(maxTokens?.toString() ?? "");
+    if (maxTokens !== stopConditions.maxTokens) {
+      onChange({ ...stopConditions, maxTokens });
+    }
+  };
+
+  return (
+    <div className="px-6 py-2 border-b border-border bg-card/50">
+      <div className="flex items-center gap-3 flex-wrap max-w-screen-xl mx-auto">
+        <Label className="text-xs font-medium text-muted-foreground">Stop when</Label>
+
+        <div className="flex items-center gap-1.5">
+          <Label htmlFor="stop-max-tokens" className="text-xs text-muted-foreground">Reply tokens reach</Label>
+          <Input
+            id="stop-max-tokens"
+            type="number"
+            value={tokenLimit}
+            onChange={(e) => setTokenLimit(e.target.value)}
+            onBlur={applyTokenLimit}
+            onKeyDown={(e) => e.key === "Enter" && applyTokenLimit()}
+            placeholder="No limit"
+            min={MIN_TOKEN_LIMIT}
+            max={MAX_TOKEN_LIMIT}
+            step={1000}
+            className="h-8 w-24 text-xs"
+          />
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <Label htmlFor="stop-phrase" className="text-xs text-muted-foreground">A reply says</Label>
+          <Input
+            id="stop-phrase"
+            value={stopConditions.stopPhrase}
+            onChange={(e) => onChange({ ...stopConditions, stopPhrase: e.target.value })}
+            placeholder="[END]"
+            maxLength={100}
+            className="h-8 w-24 text-xs"
+          />
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <Label className="text-xs text-muted-foreground">Repetition</Label>
+          <Select
+            value={stopConditions.repetition?.toString() ?? "off"}
+            onValueChange={(value) =>
+              onChange({ ...stopConditions, repetition: value === "off" ? null : parseFloat(value) })
+            }
+          >
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              {/* Keep a threshold set through the API selectable */}
+              {stopConditions.repetition !== null &&
+                !REPETITION_LEVELS.some(level => parseFloat(level.value) === stopConditions.repetition) && (
+                  <SelectItem value={stopConditions.repetition.toString()}>
+                    {Math.round(stopConditions.repetition * 100)}%
+                  </SelectItem>
+                )}
+              {REPETITION_LEVELS.map(level => (
+                <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          onClick={() => onChange({ ...stopConditions, agreement: !stopConditions.agreement })}
+          variant={stopConditions.agreement ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 gap-2 text-xs"
+          aria-pressed={stopConditions.agreement}
+          title="Participants may end the conversation once all of them agree it has concluded"
+        >
+          <Handshake className="w-4 h-4" />
+          Everyone agrees to stop
+        </Button>
+
+        {stopReason && (
+          <Badge variant="outline" className="ml-auto gap-1.5 text-xs font-normal" title={stopReason.detail}>
+            <Flag className="w-3 h-3" />
+            <strong className="font-semibold">{RULE_LABELS[stopReason.rule]}:</strong>
+            <span className="truncate max-w-[28rem]">{stopReason.detail}</span>
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+};
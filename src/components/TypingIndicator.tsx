@@ -1,18 +1,19 @@
 import { cn } from "@/lib/utils";
 
 interface TypingIndicatorProps {
-  side: "llm1" | "llm2";
+  color: string; // Colour of the participant who is typing
+  isRightAligned?: boolean;
   isTyping: boolean;
-  isWaiting?: boolean; // Show "thinking" when waiting for other LLM
+  isWaiting?: boolean; // Show "thinking" before the first words arrive
+  label?: string; // Overrides the text, e.g. a rate limit queue position
 }
 
-export const TypingIndicator = ({ side, isTyping, isWaiting = false }: TypingIndicatorProps) => {
-  if (!isTyping && !isWaiting) return null;
+export const TypingIndicator = ({ color, isRightAligned = false, isTyping, isWaiting = false, label }: TypingIndicatorProps) => {
+  if (!isTyping && !isWaiting && !label) return null;
 
-  const isRightAligned = side === "llm2";
   // Prioritize thinking over typing - if waiting, show thinking
   const isThinking = isWaiting;
-  const displayText = isThinking ? "Thinking..." : "Typing...";
+  const displayText = label || (isThinking ? "Thinking..." : "Typing...");
 
   return (
     <div className={cn(
@@ -20,18 +21,9 @@ export const TypingIndicator = ({ side, isTyping, isWaiting = false }: TypingInd
       isRightAligned && "flex-row-reverse justify-end"
     )}>
       <div className="flex gap-1">
-        <div className={cn(
-          "w-1.5 h-1.5 rounded-full animate-bounce",
-          side === "llm1" ? "bg-llm1" : "bg-llm2"
-        )} style={{ animationDelay: "0ms" }} />
-        <div className={cn(
-          "w-1.5 h-1.5 rounded-full animate-bounce",
-          side === "llm1" ? "bg-llm1" : "bg-llm2"
-        )} style={{ animationDelay: "150ms" }} />
-        <div className={cn(
-          "w-1.5 h-1.5 rounded-full animate-bounce",
-          side === "llm1" ? "bg-llm1" : "bg-llm2"
-        )} style={{ animationDelay: "300ms" }} />
+        <div className="w-1.5 h-1.5 rounded-full animate-bounce" style={{ backgroundColor: color, animationDelay: "0ms" }} />
+        <div className="w-1.5 h-1.5 rounded-full animate-bounce" style={{ backgroundColor: color, animationDelay: "150ms" }} />
+        <div className="w-1.5 h-1.5 rounded-full animate-bounce" style={{ backgroundColor: color, animationDelay: "300ms" }} />
       </div>
       <span>{displayText}</span>
     </div>
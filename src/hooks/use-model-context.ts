@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { fetchModels } from "@/services/api";
+
+/**
+ * Context window of a model, in tokens, once the model list has loaded.
+ * null while loading or for models the server doesn't list.
+ */
+export function useModelContext(model: string): number | null {
+  const [maxContext, setMaxContext] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchModels()
+      .then((providers) => {
+        if (cancelled) return;
+        const provider = providers.find(p => p.models.some(m => m.id === model));
+        const entry = provider?.models.find(m => m.id === model);
+        setMaxContext(entry?.maxContext ?? provider?.capabilities.maxContext ?? null);
+      })
+      .catch(() => {
+        // The model selector reports load errors
+        if (!cancelled) setMaxContext(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  return maxContext;
+}
@@ -0,0 +1,24 @@
+import type { RunSummary } from "@/services/runs";
+
+export interface BranchNode {
+  branch: RunSummary;
+  children: BranchNode[];
+}
+
+/**
+ * Arranges a conversation's branches as a tree by the run each was forked
+ * from. Branches whose parent is gone become roots.
+ */
+export function buildBranchTree(branches: RunSummary[]): BranchNode[] {
+  const nodes = new Map(branches.map(branch => [branch.id, { branch, children: [] as BranchNode[] }]));
+  const roots: BranchNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.branch.forkedFrom && nodes.get(node.branch.forkedFrom.runId);
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
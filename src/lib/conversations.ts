@@ -0,0 +1,8 @@
+import type { RunSummary } from "@/services/runs";
+
+/**
+ * Name to show for a conversation: its title, or its topic until it has one
+ */
+export function getConversationTitle(conversation: Pick<RunSummary, "title" | "topic">): string {
+  return conversation.title || conversation.topic || "Untitled conversation";
+}
@@ -0,0 +1,20 @@
+import type { LLMErrorCode } from "@/services/api";
+
+const ERROR_HINTS: Partial<Record<LLMErrorCode, string>> = {
+  VALIDATION_ERROR: "Check the model settings for this panel.",
+  PROVIDER_KEY_MISSING: "Add the provider's API key to .env and restart the server, or pick another model.",
+  PROVIDER_AUTH_FAILED: "The provider rejected the API key. Check the key in .env.",
+  MODEL_NOT_FOUND: "Pick another model, or check that your key has access to this one.",
+  RATE_LIMITED: "The provider is rate limiting requests. Wait a moment or add a fallback model.",
+  QUOTA_EXCEEDED: "The account is out of quota. Add billing or switch to a free model such as Groq.",
+  CONTEXT_TOO_LONG: "The conversation no longer fits the model's context. Lower max tokens or reset the chat.",
+  PROVIDER_UNAVAILABLE: "The provider is unreachable or overloaded. Try again or add a fallback model.",
+  EMPTY_RESPONSE: "The model returned nothing. Try again, or adjust temperature or max tokens.",
+  JUDGE_INVALID_RESPONSE: "The judge didn't answer in the expected format. Try a stronger judge model or raise its max tokens.",
+};
+
+/**
+ * Suggests what the user can do about an API error, based on its code
+ */
+export const getErrorHint = (code?: LLMErrorCode): string | undefined =>
+  code ? ERROR_HINTS[code] : undefined;
@@ -0,0 +1,52 @@
+import type { JudgeConfig, RunMessage, Standing } from "@/services/runs";
+
+// Matches the server's defaults in server/schemas/run.js
+export const DEFAULT_CRITERIA = ["relevance", "persuasiveness", "factuality"];
+export const MAX_CRITERIA = 8;
+
+export function createJudge(): JudgeConfig {
+  return {
+    model: "groq-llama-70b",
+    temperature: 0.2,
+    maxTokens: 400,
+    fallbackModels: [],
+    rubric: "",
+    criteria: DEFAULT_CRITERIA,
+  };
+}
+
+/**
+ * Reads a comma-separated list of criteria, dropping blanks and repeats
+ */
+export function parseCriteria(text: string): string[] {
+  const criteria: string[] = [];
+  for (const part of text.split(",")) {
+    const criterion = part.trim().slice(0, 40);
+    if (criterion && !criteria.some(c => c.toLowerCase() === criterion.toLowerCase())) {
+      criteria.push(criterion);
+    }
+  }
+  return criteria;
+}
+
+/**
+ * Each participant's average score over their scored turns, best first.
+ * Mirrors getStandings in server/services/judge.js.
+ */
+export function getStandings(
+  participants: { id: string; name: string }[],
+  messages: Pick<RunMessage, "speaker" | "score">[]
+): Standing[] {
+  return participants
+    .map(({ id, name }) => {
+      const scored = messages.filter(msg => msg.speaker === id && msg.score);
+      const total = scored.reduce((sum, msg) => sum + (msg.score?.average ?? 0), 0);
+      return {
+        id,
+        name,
+        average: scored.length > 0 ? Math.round((total / scored.length) * 10) / 10 : null,
+        scoredTurns: scored.length,
+      };
+    })
+    .sort((a, b) => (b.average ?? 0) - (a.average ?? 0));
+}
@@ -0,0 +1,15 @@
+import type { SummarizerConfig } from "@/services/runs";
+
+// Matches the server's limits in server/schemas/run.js
+export const MIN_RECENT_MESSAGES = 4;
+export const MAX_RECENT_MESSAGES = 40;
+
+export function createSummarizer(): SummarizerConfig {
+  return {
+    model: "groq-llama-8b",
+    temperature: 0.3,
+    maxTokens: 600,
+    fallbackModels: [],
+    recentMessages: 12,
+  };
+}
@@ -0,0 +1,78 @@
+import type { RunParticipant } from "@/services/runs";
+
+// Matches the server's limit in server/schemas/run.js
+export const MAX_PARTICIPANTS = 8;
+
+// The first two match the original LLM 1 and LLM 2 colours
+export const PARTICIPANT_COLORS = [
+  "#3994ef",
+  "#30bae8",
+  "#8b5cf6",
+  "#f59e0b",
+  "#10b981",
+  "#ef4444",
+  "#ec4899",
+  "#64748b",
+];
+
+// Colour for messages whose participant has since been removed
+export const FALLBACK_COLOR = "#94a3b8";
+
+// Colour of the human moderator's messages
+export const MODERATOR_COLOR = "#d97706";
+
+const BASE_PROMPT = "You are having a natural, human-like conversation. Keep your responses concise, conversational, and engaging. Aim for 2-3 sentences maximum.";
+const PERSONA_STYLES = [
+  "Be friendly and authentic, like chatting with a friend.",
+  "Be thoughtful and authentic, like chatting with a friend.",
+];
+
+/**
+ * Default persona (system prompt) for the participant at `index`
+ */
+export function getDefaultPersona(index: number, topic?: string): string {
+  const basePrompt = `${BASE_PROMPT} ${PERSONA_STYLES[index % PERSONA_STYLES.length]}`;
+  if (topic) {
+    return `${basePrompt} The conversation topic is: "${topic}". Keep responses short and natural.`;
+  }
+  return basePrompt;
+}
+
+/**
+ * A new participant with the first free "LLM n" id and name and an unused colour
+ */
+export function createParticipant(existing: RunParticipant[], topic?: string): RunParticipant {
+  let number = 1;
+  while (existing.some(p => p.id === `llm${number}` || p.name === `LLM ${number}`)) {
+    number++;
+  }
+  const color = PARTICIPANT_COLORS.find(c => !existing.some(p => p.color === c))
+    ?? PARTICIPANT_COLORS[existing.length % PARTICIPANT_COLORS.length];
+
+  return {
+    id: `llm${number}`,
+    name: `LLM ${number}`,
+    color,
+    model: "groq-llama-8b",
+    temperature: 0.7,
+    maxTokens: 200,
+    systemPrompt: getDefaultPersona(number - 1, topic),
+    fallbackModels: [],
+  };
+}
+
+export function createParticipants(count: number, topic?: string): RunParticipant[] {
+  const participants: RunParticipant[] = [];
+  for (let i = 0; i < count; i++) {
+    participants.push(createParticipant(participants, topic));
+  }
+  return participants;
+}
+
+/**
+ * A participant's hex colour at the given opacity, for inline styles
+ */
+export function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
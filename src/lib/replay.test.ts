@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { getReplayFrame, getReplaySteps, getStepDuration } from "@/lib/replay";
+import type { RunMessage } from "@/services/runs";
+
+const message = (content: string, createdAt: string, moderator = false): RunMessage => ({
+  id: createdAt,
+  parentId: null,
+  speaker: moderator ? null : "llm1",
+  name: moderator ? "Moderator" : "LLM 1",
+  moderator,
+  content,
+  createdAt,
+});
+
+// 80 characters: two seconds at the reading pace
+const TEXT = "x".repeat(80);
+
+describe("getReplaySteps", () => {
+  it("thinks, types at 40 characters a second and pauses at the reading pace", () => {
+    const steps = getReplaySteps([message(TEXT, "2025-01-01T00:00:00Z")], "reading");
+    expect(steps).toEqual([{ thinkMs: 800, typeMs: 2000, holdMs: 600 }]);
+  });
+
+  it("caps the typing time of long messages", () => {
+    const [step] = getReplaySteps([message("x".repeat(100_000), "2025-01-01T00:00:00Z")], "reading");
+    expect(step.typeMs).toBe(20_000);
+  });
+
+  it("holds moderator messages without thinking or typing", () => {
+    const [step] = getReplaySteps([message("Keep it short.", "2025-01-01T00:00:00Z", true)], "reading");
+    expect(step).toEqual({ thinkMs: 0, typeMs: 0, holdMs: 1200 });
+  });
+
+  it("lasts until the next message started with the original timing", () => {
+    const steps = getReplaySteps(
+      [
+        message(TEXT, "2025-01-01T00:00:00Z"),
+        message("Noted.", "2025-01-01T00:00:10Z", true),
+        message(TEXT, "2025-01-01T00:00:13Z"),
+      ],
+      "original"
+    );
+    expect(steps[0]).toEqual({ thinkMs: 800, typeMs: 9200, holdMs: 0 });
+    expect(steps[1]).toEqual({ thinkMs: 0, typeMs: 0, holdMs: 3000 });
+    // The last message has nothing after it and uses the reading pace
+    expect(steps[2]).toEqual({ thinkMs: 800, typeMs: 2000, holdMs: 600 });
+  });
+
+  it("thinks for a fifth of short gaps", () => {
+    const [step] = getReplaySteps(
+      [message(TEXT, "2025-01-01T00:00:00Z"), message(TEXT, "2025-01-01T00:00:01Z")],
+      "original"
+    );
+    expect(step).toEqual({ thinkMs: 200, typeMs: 800, holdMs: 0 });
+  });
+
+  it("cuts long breaks short", () => {
+    const [step] = getReplaySteps(
+      [message(TEXT, "2025-01-01T00:00:00Z"), message(TEXT, "2025-01-01T01:00:00Z")],
+      "original"
+    );
+    expect(getStepDuration(step)).toBe(20_000);
+  });
+
+  it("uses the reading pace without usable timestamps", () => {
+    const reading = { thinkMs: 800, typeMs: 2000, holdMs: 600 };
+    const same = getReplaySteps([message(TEXT, "2025-01-01T00:00:00Z"), message(TEXT, "2025-01-01T00:00:00Z")], "original");
+    const missing = getReplaySteps([message(TEXT, ""), message(TEXT, "")], "original");
+    const backwards = getReplaySteps([message(TEXT, "2025-01-01T00:00:05Z"), message(TEXT, "2025-01-01T00:00:00Z")], "original");
+    expect([same[0], missing[0], backwards[0]]).toEqual([reading, reading, reading]);
+  });
+});
+
+describe("getStepDuration", () => {
+  it("adds up the phases", () => {
+    expect(getStepDuration({ thinkMs: 800, typeMs: 2000, holdMs: 600 })).toBe(3400);
+  });
+});
+
+describe("getReplayFrame", () => {
+  const step = { thinkMs: 800, typeMs: 2000, holdMs: 600 };
+
+  it("thinks first", () => {
+    expect(getReplayFrame(step, 0, 80)).toEqual({ phase: "thinking", chars: 0 });
+    expect(getReplayFrame(step, 799, 80)).toEqual({ phase: "thinking", chars: 0 });
+  });
+
+  it("types the text out in proportion to the time", () => {
+    expect(getReplayFrame(step, 800, 80)).toEqual({ phase: "typing", chars: 0 });
+    expect(getReplayFrame(step, 1800, 80)).toEqual({ phase: "typing", chars: 40 });
+    expect(getReplayFrame(step, 1801, 80)).toEqual({ phase: "typing", chars: 41 });
+  });
+
+  it("shows the whole text once typed", () => {
+    expect(getReplayFrame(step, 2800, 80)).toEqual({ phase: "done", chars: 80 });
+    expect(getReplayFrame(step, 3400, 80)).toEqual({ phase: "done", chars: 80 });
+  });
+
+  it("shows a moderator message at once", () => {
+    expect(getReplayFrame({ thinkMs: 0, typeMs: 0, holdMs: 1200 }, 0, 14)).toEqual({ phase: "done", chars: 14 });
+  });
+});
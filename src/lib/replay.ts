@@ -0,0 +1,73 @@
+import type { RunMessage } from "@/services/runs";
+
+/**
+ * Timing for playing a saved conversation back
+ *
+ * Each message gets a step: thinking, then typing its text out, then a
+ * pause before the next message. With "original" timing a reply's step
+ * lasts as long as it took in the conversation (until the next message
+ * started, at most MAX_GAP_MS); "reading" timing types at a steady pace.
+ * Messages without usable timestamps, such as imported ones, always use
+ * the reading pace.
+ */
+
+export type ReplayTiming = "original" | "reading";
+
+export interface ReplayStep {
+  thinkMs: number;
+  typeMs: number;
+  holdMs: number; // Pause once the message is complete
+}
+
+export type ReplayPhase = "thinking" | "typing" | "done";
+
+const CHARS_PER_SECOND = 40;
+const THINKING_MS = 800;
+const HOLD_MS = 600;
+const MODERATOR_HOLD_MS = 1200;
+const MAX_TYPE_MS = 20_000;
+const MAX_GAP_MS = 20_000; // Longer breaks in the original are cut short
+
+export const getStepDuration = (step: ReplayStep) => step.thinkMs + step.typeMs + step.holdMs;
+
+function getReadingStep(message: RunMessage): ReplayStep {
+  if (message.moderator) {
+    return { thinkMs: 0, typeMs: 0, holdMs: MODERATOR_HOLD_MS };
+  }
+  const typeMs = Math.min(MAX_TYPE_MS, (message.content.length / CHARS_PER_SECOND) * 1000);
+  return { thinkMs: THINKING_MS, typeMs, holdMs: HOLD_MS };
+}
+
+function getOriginalStep(message: RunMessage, next: RunMessage | undefined): ReplayStep {
+  const gap = next ? Date.parse(next.createdAt) - Date.parse(message.createdAt) : NaN;
+  if (!(gap > 0)) {
+    return getReadingStep(message);
+  }
+  const duration = Math.min(MAX_GAP_MS, gap);
+  if (message.moderator) {
+    return { thinkMs: 0, typeMs: 0, holdMs: duration };
+  }
+  const thinkMs = Math.min(THINKING_MS, duration * 0.2);
+  return { thinkMs, typeMs: duration - thinkMs, holdMs: 0 };
+}
+
+export function getReplaySteps(messages: RunMessage[], timing: ReplayTiming): ReplayStep[] {
+  return messages.map((message, index) =>
+    timing === "original" ? getOriginalStep(message, messages[index + 1]) : getReadingStep(message)
+  );
+}
+
+/**
+ * Where a message is `elapsed` ms into its step, and how much of its text
+ * is showing
+ */
+export function getReplayFrame(step: ReplayStep, elapsed: number, length: number): { phase: ReplayPhase; chars: number } {
+  if (elapsed < step.thinkMs) {
+    return { phase: "thinking", chars: 0 };
+  }
+  const typed = elapsed - step.thinkMs;
+  if (typed < step.typeMs) {
+    return { phase: "typing", chars: Math.ceil((length * typed) / step.typeMs) };
+  }
+  return { phase: "done", chars: length };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { parseTranscript, TranscriptImportError } from "@/lib/transcriptImport";
+
+const parse = (data: unknown, fileName = "debate.json") => parseTranscript(JSON.stringify(data), fileName);
+
+describe("parseTranscript", () => {
+  describe("chat messages", () => {
+    const messages = [
+      { role: "system", content: "Keep it short." },
+      { role: "user", content: "Tabs?" },
+      { role: "assistant", content: "Spaces." },
+      { role: "user", content: [{ type: "text", text: "Why?" }, { type: "image_url" }] },
+    ];
+
+    it("maps each role to a participant in order of first appearance", () => {
+      const { format, conversation, speakers } = parse(messages);
+      expect(format).toBe("messages");
+      expect(speakers).toEqual([
+        { label: "user", participantName: "LLM 1" },
+        { label: "assistant", participantName: "LLM 2" },
+      ]);
+      expect(conversation.participants.map(p => p.id)).toEqual(["llm1", "llm2"]);
+      expect(conversation.messages).toEqual([
+        { speaker: null, name: "Moderator", moderator: true, content: "Keep it short." },
+        { speaker: "llm1", name: "LLM 1", content: "Tabs?" },
+        { speaker: "llm2", name: "LLM 2", content: "Spaces." },
+        { speaker: "llm1", name: "LLM 1", content: "Why?" },
+      ]);
+    });
+
+    it("reads them wrapped in { messages }", () => {
+      expect(parse({ messages }).conversation.messages).toHaveLength(4);
+    });
+
+    it("tells speakers sharing a role apart by name", () => {
+      const { speakers } = parse([
+        { role: "assistant", name: "Ada", content: "Tabs." },
+        { role: "assistant", name: "Bo", content: "Spaces." },
+        { role: "assistant", name: "Cy", content: "Both." },
+      ]);
+      expect(speakers.map(s => s.label)).toEqual(["Ada", "Bo", "Cy"]);
+    });
+
+    it("titles the conversation after the file", () => {
+      expect(parse(messages, "tabs-vs-spaces.v2.json").conversation.title).toBe("tabs-vs-spaces.v2");
+    });
+
+    it("skips empty messages", () => {
+      const { conversation } = parse([
+        { role: "user", content: "Hi." },
+        { role: "assistant", content: "  " },
+      ]);
+      expect(conversation.messages).toHaveLength(1);
+      // Still two participants to talk to each other
+      expect(conversation.participants).toHaveLength(2);
+    });
+  });
+
+  describe("ShareGPT", () => {
+    const conversations = [
+      { from: "human", value: "Tabs?" },
+      { from: "gpt", value: "Spaces." },
+    ];
+
+    it("reads a single conversation, a dataset and a bare array", () => {
+      for (const data of [{ conversations }, [{ conversations }, { conversations: [] }], conversations]) {
+        const { format, conversation, speakers } = parse(data);
+        expect(format).toBe("sharegpt");
+        expect(speakers.map(s => s.label)).toEqual(["human", "gpt"]);
+        expect(conversation.messages.map(m => m.content)).toEqual(["Tabs?", "Spaces."]);
+      }
+    });
+  });
+
+  describe("this app's export", () => {
+    const record = {
+      title: "Tabs or spaces",
+      topic: "Indentation",
+      participants: [{ id: "a", name: "Ada" }, { id: "b", name: "Bo" }],
+      messages: [{ speaker: "a", name: "Ada", content: "Tabs.", model: "mock-echo" }],
+    };
+
+    it("keeps the settings and message metadata", () => {
+      const { format, conversation, speakers } = parse({ format: "dual-llm-conversation", version: 1, conversation: record });
+      expect(format).toBe("app");
+      expect(conversation).toEqual(record);
+      expect(speakers).toEqual([
+        { label: "Ada", participantName: "Ada" },
+        { label: "Bo", participantName: "Bo" },
+      ]);
+    });
+
+    it("reads a conversation record without the export envelope", () => {
+      expect(parse(record).format).toBe("app");
+    });
+
+    it("rejects an export without participants or messages", () => {
+      const { participants, ...noParticipants } = record;
+      for (const conversation of [noParticipants, { ...record, messages: "Tabs." }]) {
+        const text = JSON.stringify({ format: "dual-llm-conversation", version: 1, conversation });
+        expect(() => parseTranscript(text, "export.json")).toThrow(TranscriptImportError);
+        expect(() => parseTranscript(text, "export.json")).toThrow("The conversation export has no participants or messages");
+      }
+    });
+  });
+
+  describe("errors", () => {
+    const expectError = (text: string, message: string | RegExp) => {
+      expect(() => parseTranscript(text, "bad.json")).toThrow(TranscriptImportError);
+      expect(() => parseTranscript(text, "bad.json")).toThrow(message);
+    };
+
+    it("rejects files that are not JSON", () => {
+      expectError("Tabs or spaces?", "The file is not valid JSON");
+    });
+
+    it("rejects JSON in an unknown shape", () => {
+      expectError("{}", /^Unrecognised transcript/);
+      expectError("[]", /^Unrecognised transcript/);
+      expectError('"text"', /^Unrecognised transcript/);
+    });
+
+    it("names the message without a role", () => {
+      expectError(JSON.stringify([{ role: "user", content: "Hi." }, { content: "Hello." }]), "Message 2 has no role");
+    });
+
+    it("rejects transcripts without any text", () => {
+      expectError(JSON.stringify([{ role: "user", content: "" }]), "The transcript has no messages");
+    });
+
+    it("rejects more speakers than can take part", () => {
+      const many = Array.from({ length: 9 }, (_, i) => ({ role: "assistant", name: `Speaker ${i}`, content: "Hi." }));
+      expectError(JSON.stringify(many), "The transcript has 9 speakers; at most 8 can take part");
+    });
+  });
+});
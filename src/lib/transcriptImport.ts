@@ -0,0 +1,163 @@
+import type { CreateConversationRequest, NewConversationMessage } from "@/services/conversations";
+import { createParticipants, MAX_PARTICIPANTS } from "@/lib/participants";
+
+/**
+ * Reading transcripts from other tools (and from this app's JSON export)
+ *
+ * Supported files:
+ *   app       this app's JSON export, or a conversation from /api/conversations;
+ *             settings and message metadata come along
+ *   messages  a chat array, [{ role, content }], on its own or as { messages }
+ *   sharegpt  ShareGPT-style { conversations: [{ from, value }] }, on its own,
+ *             in an array (the first is used) or as the bare array
+ *
+ * In the last two, each speaker becomes a participant in order of first
+ * appearance (llm1, llm2, ...) with default settings, and system messages
+ * become moderator messages.
+ */
+
+export type TranscriptFormat = "app" | "messages" | "sharegpt";
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  app: "Conversation export",
+  messages: "Chat messages",
+  sharegpt: "ShareGPT",
+};
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  conversation: CreateConversationRequest;
+  speakers: { label: string; participantName: string }[]; // How the file's speakers were mapped
+}
+
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptImportError";
+  }
+}
+
+const SYSTEM_ROLES = new Set(["system", "developer"]);
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Text of a message, including content given as parts ([{ type: "text", text }])
+function getText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === "string" ? part : isObject(part) && typeof part.text === "string" ? part.text : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Builds a conversation from speaker-labelled turns
+ */
+function fromTurns(format: TranscriptFormat, turns: { speaker: string; content: string }[], title: string): ParsedTranscript {
+  const labels: string[] = [];
+  for (const turn of turns) {
+    if (!SYSTEM_ROLES.has(turn.speaker.toLowerCase()) && !labels.includes(turn.speaker)) {
+      labels.push(turn.speaker);
+    }
+  }
+  if (labels.length > MAX_PARTICIPANTS) {
+    throw new TranscriptImportError(`The transcript has ${labels.length} speakers; at most ${MAX_PARTICIPANTS} can take part`);
+  }
+
+  const participants = createParticipants(Math.max(2, labels.length));
+  const messages: NewConversationMessage[] = turns
+    .filter(turn => turn.content.trim())
+    .map(turn => {
+      const participant = participants[labels.indexOf(turn.speaker)];
+      return participant
+        ? { speaker: participant.id, name: participant.name, content: turn.content }
+        : { speaker: null, name: "Moderator", moderator: true, content: turn.content };
+    });
+  if (messages.length === 0) {
+    throw new TranscriptImportError("The transcript has no messages");
+  }
+
+  return {
+    format,
+    conversation: { title, topic: "", participants, messages },
+    speakers: labels.map((label, index) => ({ label, participantName: participants[index].name })),
+  };
+}
+
+function fromChatMessages(entries: unknown[], title: string): ParsedTranscript {
+  const turns = entries.map((entry, index) => {
+    if (!isObject(entry) || typeof entry.role !== "string") {
+      throw new TranscriptImportError(`Message ${index + 1} has no role`);
+    }
+    // A name tells apart speakers sharing a role
+    const speaker = typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : entry.role;
+    return { speaker: SYSTEM_ROLES.has(entry.role) ? entry.role : speaker, content: getText(entry.content) };
+  });
+  return fromTurns("messages", turns, title);
+}
+
+function fromShareGpt(entries: unknown[], title: string): ParsedTranscript {
+  const turns = entries.map((entry, index) => {
+    if (!isObject(entry) || typeof entry.from !== "string") {
+      throw new TranscriptImportError(`Message ${index + 1} has no "from"`);
+    }
+    return { speaker: entry.from, content: getText(entry.value) };
+  });
+  return fromTurns("sharegpt", turns, title);
+}
+
+function fromConversation(record: JsonObject): ParsedTranscript {
+  if (!Array.isArray(record.participants) || !Array.isArray(record.messages)) {
+    throw new TranscriptImportError("The conversation export has no participants or messages");
+  }
+  const conversation = record as unknown as CreateConversationRequest;
+  return {
+    format: "app",
+    conversation,
+    speakers: conversation.participants.map(p => ({ label: p.name, participantName: p.name })),
+  };
+}
+
+const isShareGpt = (value: unknown): value is { conversations: unknown[] } =>
+  isObject(value) && Array.isArray(value.conversations);
+
+/**
+ * Reads a transcript file. `fileName` titles conversations whose file
+ * doesn't name them. Throws a TranscriptImportError for anything else.
+ */
+export function parseTranscript(text: string, fileName: string): ParsedTranscript {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptImportError("The file is not valid JSON");
+  }
+  const title = fileName.replace(/\.[^.]+$/, "").slice(0, 200);
+
+  if (isObject(data) && isObject(data.conversation) && data.format === "dual-llm-conversation") {
+    return fromConversation(data.conversation);
+  }
+  if (isObject(data) && Array.isArray(data.participants) && Array.isArray(data.messages)) {
+    return fromConversation(data);
+  }
+  if (isShareGpt(data)) {
+    return fromShareGpt(data.conversations, title);
+  }
+  if (Array.isArray(data) && isShareGpt(data[0])) {
+    return fromShareGpt(data[0].conversations, title);
+  }
+  const messages = isObject(data) && Array.isArray(data.messages) ? data.messages : data;
+  if (Array.isArray(messages) && messages.length > 0 && isObject(messages[0])) {
+    if ("from" in messages[0]) return fromShareGpt(messages, title);
+    if ("role" in messages[0]) return fromChatMessages(messages, title);
+  }
+  throw new TranscriptImportError(
+    "Unrecognised transcript. Use this app's JSON export, a [{ role, content }] array or a ShareGPT file."
+  );
+}
@@ -0,0 +1,51 @@
+import type { TokenUsage } from "@/services/api";
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+  // Some replies came from models without a known price
+  hasUnpricedTurns: boolean;
+}
+
+export const emptyUsageTotals: UsageTotals = {
+  tokens: 0,
+  cost: 0,
+  hasUnpricedTurns: false,
+};
+
+/**
+ * Sums token counts and costs over messages that carry usage
+ */
+export function sumUsage(
+  messages: Array<{ usage?: TokenUsage; cost?: number | null }>
+): UsageTotals {
+  return messages.reduce<UsageTotals>(
+    (totals, msg) => {
+      if (!msg.usage) return totals;
+      return {
+        tokens: totals.tokens + msg.usage.totalTokens,
+        cost: totals.cost + (msg.cost ?? 0),
+        hasUnpricedTurns: totals.hasUnpricedTurns || msg.cost === null,
+      };
+    },
+    emptyUsageTotals
+  );
+}
+
+export function addUsageTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    tokens: a.tokens + b.tokens,
+    cost: a.cost + b.cost,
+    hasUnpricedTurns: a.hasUnpricedTurns || b.hasUnpricedTurns,
+  };
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { History as HistoryIcon, Loader2, Plus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ConversationListItem } from "@/components/ConversationListItem";
+import { ImportConversation, type ImportMode } from "@/components/ImportConversation";
+import { getConversationTitle } from "@/lib/conversations";
+import { getErrorHint } from "@/lib/errors";
+import type { ParsedTranscript } from "@/lib/transcriptImport";
+import {
+  createConversation,
+  deleteConversation,
+  fetchConversations,
+  updateConversation,
+  type SavedConversation,
+} from "@/services/conversations";
+import { forkRun, RunApiError } from "@/services/runs";
+import { toast } from "sonner";
+
+const MORE_TURNS = 20;
+const MAX_TURNS_LIMIT = 500; // Highest maxTurns the server accepts
+
+/**
+ * Saved conversations, to find, rename, delete and reopen them. Opening one
+ * loads it into the chat page, where it continues from where it stopped.
+ */
+const History = () => {
+  const navigate = useNavigate();
+  const [conversations, setConversations] = useState<SavedConversation[] | null>(null);
+  const [query, setQuery] = useState("");
+
+  const showError = (error: unknown, action: string) => {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[History] ${action} failed:`, error);
+    toast.error(`${action} failed: ${message}`, {
+      description: getErrorHint(error instanceof RunApiError ? error.code : undefined),
+      duration: 6000,
+    });
+  };
+
+  useEffect(() => {
+    fetchConversations()
+      .then(setConversations)
+      .catch(error => {
+        showError(error, "Loading conversations");
+        setConversations([]);
+      });
+  }, []);
+
+  // Matches the title, topic, participant names and models
+  const shown = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return (conversations ?? []).filter(conversation => {
+      const text = [
+        getConversationTitle(conversation),
+        conversation.topic,
+        ...conversation.participants.flatMap(p => [p.name, p.model]),
+      ].join(" ").toLowerCase();
+      return words.every(word => text.includes(word));
+    });
+  }, [conversations, query]);
+
+  const handleRename = async (id: string, title: string) => {
+    try {
+      const updated = await updateConversation(id, { title });
+      setConversations(prev => prev?.map(c => (c.id === id ? { ...c, title: updated.title } : c)) ?? null);
+      return true;
+    } catch (error) {
+      showError(error, "Rename");
+      return false;
+    }
+  };
+
+  // Both modes open the conversation without playing it, so models can be
+  // picked first; auto-play is set up to go on for another MORE_TURNS turns
+  // or, for a replay, as many turns as the original had
+  const handleImport = async (transcript: ParsedTranscript, mode: ImportMode) => {
+    try {
+      const imported = await createConversation(transcript.conversation);
+      if (mode === "continue") {
+        if (imported.turnCount >= imported.maxTurns) {
+          await updateConversation(imported.id, {
+            maxTurns: Math.min(MAX_TURNS_LIMIT, imported.turnCount + MORE_TURNS),
+          });
+        }
+        navigate(`/chat?run=${imported.id}`);
+        return;
+      }
+      const replay = await forkRun(imported.id, imported.messages[0].id);
+      await updateConversation(replay.id, {
+        autoPlay: true,
+        maxTurns: Math.min(MAX_TURNS_LIMIT, Math.max(imported.turnCount, replay.turnCount + 1)),
+      });
+      toast.success("Replay ready", { description: "Press Start to have the participants play it again." });
+      navigate(`/chat?run=${replay.id}`);
+    } catch (error) {
+      showError(error, "Import");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      setConversations(prev => prev?.filter(c => c.id !== id) ?? null);
+    } catch (error) {
+      showError(error, "Delete");
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <div className="px-6 py-4 bg-card border-b border-border shadow-sm">
+        <div className="flex items-center gap-4 max-w-3xl mx-auto">
+          <HistoryIcon className="w-5 h-5 text-muted-foreground" />
+          <h1 className="text-xl font-bold text-foreground flex-1">Conversation History</h1>
+          <ImportConversation onImport={handleImport} />
+          <Button asChild size="sm" className="gap-2">
+            <Link to="/">
+              <Plus className="w-4 h-4" />
+              New Conversation
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-3xl mx-auto px-6 py-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by title, topic, participant or model..."
+              className="pl-9"
+              aria-label="Search conversations"
+            />
+          </div>
+
+          {conversations === null ? (
+            <div className="flex justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : shown.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {conversations.length === 0
+                ? "No saved conversations yet. Conversations are saved as they play."
+                : "No conversations match your search."}
+            </p>
+          ) : (
+            shown.map(conversation => (
+              <ConversationListItem
+                key={conversation.id}
+                conversation={conversation}
+                onOpen={() => navigate(`/chat?run=${conversation.id}`)}
+                onReplay={() => navigate(`/replay?run=${conversation.id}`)}
+                onRename={(title) => handleRename(conversation.id, title)}
+                onDelete={() => handleDelete(conversation.id)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default History;
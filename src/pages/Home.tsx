@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
@@ -10,13 +10,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Sparkles } from "lucide-react";
+import { History, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { createParticipants, MAX_PARTICIPANTS } from "@/lib/participants";
 
 const Home = () => {
   const navigate = useNavigate();
   const [topic, setTopic] = useState("");
-  const [startingLlm, setStartingLlm] = useState<"llm1" | "llm2">("llm1");
+  const [participantCount, setParticipantCount] = useState(2);
+  const [startingSpeaker, setStartingSpeaker] = useState("llm1");
+  // Default names and colours, as the chat page will create them
+  const participants = createParticipants(participantCount);
 
   const handleStart = () => {
     if (!topic.trim()) {
@@ -26,7 +30,8 @@ const Home = () => {
     navigate("/chat", {
       state: {
         topic: topic.trim(),
-        startingLlm,
+        startingSpeaker,
+        participantCount,
       },
     });
   };
@@ -44,7 +49,7 @@ const Home = () => {
             </div>
             <h1 className="text-3xl font-bold text-foreground">Dual Chat AI</h1>
             <p className="text-muted-foreground">
-              Start a conversation between two AI models
+              Start a conversation between two or more AI models
             </p>
           </div>
 
@@ -64,31 +69,56 @@ const Home = () => {
               />
             </div>
 
+            {/* Participant Count */}
+            <div className="space-y-2">
+              <Label htmlFor="participant-count" className="text-sm font-semibold">
+                How many LLMs take part?
+              </Label>
+              <Select
+                value={String(participantCount)}
+                onValueChange={(value) => {
+                  const count = parseInt(value);
+                  setParticipantCount(count);
+                  // The chosen starter may no longer be in the list
+                  if (!createParticipants(count).some(p => p.id === startingSpeaker)) {
+                    setStartingSpeaker(participants[0].id);
+                  }
+                }}
+              >
+                <SelectTrigger id="participant-count" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_PARTICIPANTS - 1 }, (_, i) => i + 2).map(count => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count} participants
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Starting LLM Selector */}
             <div className="space-y-2">
               <Label htmlFor="starting-llm" className="text-sm font-semibold">
                 Which LLM should start the conversation?
               </Label>
               <Select
-                value={startingLlm}
-                onValueChange={(value: "llm1" | "llm2") => setStartingLlm(value)}
+                value={startingSpeaker}
+                onValueChange={setStartingSpeaker}
               >
                 <SelectTrigger id="starting-llm" className="w-full">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="llm1">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded-full bg-llm1"></div>
-                      <span>LLM 1</span>
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="llm2">
-                    <div className="flex items-center gap-2">
-                      <div className="w-3 h-3 rounded-full bg-llm2"></div>
-                      <span>LLM 2</span>
-                    </div>
-                  </SelectItem>
+                  {participants.map(participant => (
+                    <SelectItem key={participant.id} value={participant.id}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: participant.color }}></div>
+                        <span>{participant.name}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -102,6 +132,12 @@ const Home = () => {
             >
               Start Conversation
             </Button>
+            <Button asChild variant="ghost" className="w-full gap-2 text-muted-foreground">
+              <Link to="/history">
+                <History className="w-4 h-4" />
+                Past conversations
+              </Link>
+            </Button>
           </div>
         </div>
       </div>
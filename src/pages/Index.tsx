@@ -1,528 +1,760 @@
 import { useState, useEffect, useMemo, useRef } from "react";
-import { useLocation, useNavigate } from "react-router-dom";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { GitBranch } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { ChatPanel } from "@/components/ChatPanel";
-import { GlobalControls } from "@/components/GlobalControls";
-import { generateLLMResponseStream, formatMessagesForAPI } from "@/services/api";
+import { GlobalControls, type SidePanel } from "@/components/GlobalControls";
+import { SpeakingOrderControls } from "@/components/SpeakingOrderControls";
+import { ModeratorInput } from "@/components/ModeratorInput";
+import { JudgePanel } from "@/components/JudgePanel";
+import { MemoryPanel } from "@/components/MemoryPanel";
+import { StopConditionsControls } from "@/components/StopConditionsControls";
+import { BranchPanel } from "@/components/BranchPanel";
+import type { AutoPlaySettings } from "@/components/AutoPlayControls";
+import type { TokenUsage, QueueStatus } from "@/services/api";
+import {
+  createRun,
+  fetchRun,
+  updateRun,
+  startRun,
+  pauseRun,
+  stopRun,
+  playTurn,
+  addModeratorMessage,
+  requestVerdict,
+  forkRun,
+  fetchBranches,
+  editMessage,
+  deleteMessagesFrom,
+  regenerateMessage,
+  selectVersion,
+  subscribeToRun,
+  RunApiError,
+  type RunMessage,
+  type ContextUsage,
+  type RunParticipant,
+  type JudgeConfig,
+  type SummarizerConfig,
+  type StopConditions,
+  type StopReason,
+  type TurnScore,
+  type TurnOrder,
+  type RunSummary,
+  type RunEvent,
+  type UpdateRunRequest,
+} from "@/services/runs";
+import { downloadConversation, type ExportFormat } from "@/services/conversations";
+import { sumUsage, addUsageTotals, emptyUsageTotals } from "@/lib/usage";
+import {
+  createParticipant,
+  createParticipants,
+  FALLBACK_COLOR,
+  MAX_PARTICIPANTS,
+  MODERATOR_COLOR,
+} from "@/lib/participants";
+import { createJudge, getStandings } from "@/lib/judge";
+import { createSummarizer } from "@/lib/memory";
+import { getErrorHint } from "@/lib/errors";
 import { toast } from "sonner";
 
 interface Message {
   id: string;
   content: string;
   timestamp: string;
-  sender?: "llm1" | "llm2";
+  sender?: string; // Participant id
+  name: string;
+  moderator?: boolean;
+  interrupted?: boolean;
+  model?: string;
+  fallbackFrom?: string;
+  usage?: TokenUsage;
+  cost?: number | null;
+  context?: ContextUsage;
+  score?: TurnScore;
+  edited?: boolean;
+  versionCount?: number; // Versions of a regenerated reply
+  activeVersion?: number;
 }
 
-interface LLMConfig {
-  model: string;
-  temperature: number;
-  maxTokens: number;
-  systemPrompt: string;
-}
+// Settings edits are sent to the run once typing pauses
+const SETTINGS_SYNC_DELAY_MS = 400;
+
+const DEFAULT_PARTICIPANT_COUNT = 2;
 
+const DEFAULT_STOP_CONDITIONS: StopConditions = {
+  maxTokens: null,
+  stopPhrase: "",
+  repetition: null,
+  agreement: false,
+};
+
+// What to do about a finished run, by the rule that ended it
+const STOP_HINTS: Partial<Record<StopReason["rule"], string>> = {
+  max_turns: "Raise Max turns to keep going.",
+  max_tokens: "Raise the token limit to keep going.",
+};
+
+const toMessage = (message: RunMessage): Message => ({
+  id: message.id,
+  content: message.content,
+  timestamp: new Date(message.createdAt).toLocaleTimeString(),
+  sender: message.speaker ?? undefined,
+  name: message.name,
+  moderator: message.moderator,
+  interrupted: message.interrupted,
+  model: message.model,
+  fallbackFrom: message.fallbackFrom,
+  usage: message.usage,
+  cost: message.cost,
+  context: message.context,
+  score: message.score,
+  edited: message.edited,
+  versionCount: message.versions?.length,
+  activeVersion: message.activeVersion,
+});
+
+/**
+ * Chat page: a viewer and controller for a conversation run on the server.
+ * The server plays the turns and saves the run as it goes, so a run keeps
+ * going when this tab closes; the run id is kept in the URL (?run=...) so
+ * reloading reattaches to it, even after the server restarted.
+ */
 const Index = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { topic, startingLlm } = (location.state as { topic?: string; startingLlm?: "llm1" | "llm2" }) || {};
+  const [searchParams, setSearchParams] = useSearchParams();
+  const runId = searchParams.get("run");
+  const { topic, startingSpeaker, participantCount } =
+    (location.state as { topic?: string; startingSpeaker?: string; participantCount?: number }) || {};
 
-  // Redirect to home if no topic provided
+  // Redirect to home if there is neither a topic nor a run to show
   useEffect(() => {
-    if (!topic) {
+    if (!topic && !runId) {
       navigate("/", { replace: true });
     }
-  }, [topic, navigate]);
-
-  const [isRunning, setIsRunning] = useState(false);
-  const [currentTurn, setCurrentTurn] = useState<"llm1" | "llm2" | null>(null);
-  const [turnCount, setTurnCount] = useState(0);
-
-  const getSystemPrompt = (llmNumber: 1 | 2) => {
-    const basePrompt = llmNumber === 1
-      ? "You are having a natural, human-like conversation. Keep your responses concise, conversational, and engaging. Aim for 2-3 sentences maximum. Be friendly and authentic, like chatting with a friend."
-      : "You are having a natural, human-like conversation. Keep your responses concise, conversational, and engaging. Aim for 2-3 sentences maximum. Be thoughtful and authentic, like chatting with a friend.";
-    
-    if (topic) {
-      return `${basePrompt} The conversation topic is: "${topic}". Keep responses short and natural.`;
-    }
-    return basePrompt;
+  }, [topic, runId, navigate]);
+
+  const [run, setRun] = useState<RunSummary | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  // Reply being streamed, not yet part of the transcript
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  // Set while the server holds a request back for rate limiting
+  const [queueStatus, setQueueStatus] = useState<Record<string, QueueStatus | null>>({});
+  const [autoPlay, setAutoPlay] = useState<AutoPlaySettings>({ enabled: false, delaySeconds: 1, maxTurns: 20 });
+
+  const [participants, setParticipants] = useState<RunParticipant[]>(() =>
+    createParticipants(participantCount || DEFAULT_PARTICIPANT_COUNT, topic)
+  );
+  const [turnOrder, setTurnOrder] = useState<TurnOrder>("round-robin");
+  const [speakingOrder, setSpeakingOrder] = useState<string[]>([]);
+  const [stopConditions, setStopConditions] = useState<StopConditions>(DEFAULT_STOP_CONDITIONS);
+  const [judge, setJudge] = useState<JudgeConfig | null>(null);
+  const [summarizer, setSummarizer] = useState<SummarizerConfig | null>(null);
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  // Every branch of this conversation, loaded while the branches panel is open
+  const [branches, setBranches] = useState<RunSummary[]>([]);
+
+  const isCreatingRun = useRef(false);
+  // Settings the run already has, so unchanged settings aren't sent back
+  const syncedSettings = useRef("");
+
+  const getRunSettings = (): UpdateRunRequest => ({
+    participants,
+    turnOrder,
+    speakingOrder,
+    autoPlay: autoPlay.enabled,
+    delayMs: Math.round(autoPlay.delaySeconds * 1000),
+    maxTurns: autoPlay.maxTurns,
+    stopConditions,
+    judge,
+    summarizer,
+  });
+
+  // Sends settings edits that haven't reached the run yet
+  const pushSettings = async () => {
+    // Wait until every participant has a distinct name again
+    const names = participants.map(p => p.name.trim().toLowerCase());
+    if (!runId || names.some(name => !name) || new Set(names).size < names.length) return;
+    const settings = getRunSettings();
+    const serialized = JSON.stringify(settings);
+    if (serialized === syncedSettings.current) return;
+    // Counts as synced only once saved, so a failed edit is sent again
+    await updateRun(runId, settings);
+    syncedSettings.current = serialized;
   };
 
-  // Memoize initial values based on topic
-  const initialLlm1SystemPrompt = useMemo(() => getSystemPrompt(1), [topic]);
-  const initialLlm2SystemPrompt = useMemo(() => getSystemPrompt(2), [topic]);
+  const showError = (error: unknown, label?: string) => {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(label ? `[${label}] Run request failed:` : "Run request failed:", error);
+    toast.error(label ? `${label} Error: ${message}` : message, {
+      description: getErrorHint(error instanceof RunApiError ? error.code : undefined),
+      duration: 6000,
+    });
+  };
 
-  const [llm1Messages, setLlm1Messages] = useState<Message[]>([]);
-  const [llm2Messages, setLlm2Messages] = useState<Message[]>([]);
+  // Create a run for the topic; the starting participant, if given, opens it
+  useEffect(() => {
+    if (runId || !topic || isCreatingRun.current) return;
+    isCreatingRun.current = true;
+
+    const opener = participants.some(p => p.id === startingSpeaker) ? startingSpeaker : undefined;
+    createRun({
+      topic,
+      participants,
+      turnOrder,
+      speakingOrder,
+      startingSpeaker: opener,
+      autoPlay: autoPlay.enabled,
+      delayMs: Math.round(autoPlay.delaySeconds * 1000),
+      maxTurns: autoPlay.maxTurns,
+      stopConditions,
+      judge,
+      summarizer,
+    })
+      .then(async (created) => {
+        setSearchParams({ run: created.id }, { replace: true, state: location.state });
+        if (opener) {
+          await playTurn(created.id, opener);
+        }
+      })
+      .catch(error => showError(error))
+      .finally(() => {
+        isCreatingRun.current = false;
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runId, topic]);
 
-  const [llm1Config, setLlm1Config] = useState<LLMConfig>({
-    model: "groq-llama-8b",
-    temperature: 0.7,
-    maxTokens: 200,
-    systemPrompt: initialLlm1SystemPrompt,
-  });
+  // Follow the run's event stream. Closing it leaves the run playing.
+  useEffect(() => {
+    if (!runId) return;
+    setQueueStatus({});
+
+    const clearQueueStatus = (speaker: string) => {
+      setQueueStatus(prev => ({ ...prev, [speaker]: null }));
+    };
+
+    const handleEvent = (event: RunEvent) => {
+      switch (event.type) {
+        case "snapshot": {
+          const { messages: transcript, streamingMessage: streaming, ...summary } = event.run;
+          setRun(summary);
+          setMessages(transcript.map(toMessage));
+          setStreamingMessage(streaming ? toMessage(streaming) : null);
+          // Show the run's own settings, e.g. after reattaching
+          const settings: AutoPlaySettings = {
+            enabled: summary.autoPlay,
+            delaySeconds: summary.delayMs / 1000,
+            maxTurns: summary.maxTurns,
+          };
+          setParticipants(summary.participants);
+          setTurnOrder(summary.turnOrder);
+          setSpeakingOrder(summary.speakingOrder);
+          setAutoPlay(settings);
+          setStopConditions(summary.stopConditions);
+          setJudge(summary.judge);
+          setSummarizer(summary.summarizer);
+          syncedSettings.current = JSON.stringify({
+            participants: summary.participants,
+            turnOrder: summary.turnOrder,
+            speakingOrder: summary.speakingOrder,
+            autoPlay: settings.enabled,
+            delayMs: summary.delayMs,
+            maxTurns: settings.maxTurns,
+            stopConditions: summary.stopConditions,
+            judge: summary.judge,
+            summarizer: summary.summarizer,
+          });
+          break;
+        }
+        case "status":
+          if (event.reason === "error") {
+            toast.info("Auto-play paused after an error. Press Resume to try again.");
+          } else if (event.reason === "stop_condition" && event.run.stopReason) {
+            const { rule, detail } = event.run.stopReason;
+            toast.success(`Auto-play finished: ${detail}`, {
+              description: STOP_HINTS[rule] ?? "Press Resume to keep going.",
+            });
+          }
+          setRun(event.run);
+          break;
+        case "turn_start":
+          setRun(event.run);
+          setStreamingMessage({
+            id: event.messageId,
+            content: "",
+            timestamp: new Date().toLocaleTimeString(),
+            sender: event.speaker,
+            name: event.run.participants.find(p => p.id === event.speaker)?.name ?? event.speaker,
+            model: event.model,
+            context: event.context,
+          });
+          break;
+        case "queued":
+          setQueueStatus(prev => ({
+            ...prev,
+            [event.speaker]: event.queued
+              ? { position: event.position ?? 1, waitingFor: event.waitingFor ?? "" }
+              : null,
+          }));
+          break;
+        case "chunk":
+          setStreamingMessage(prev =>
+            prev && prev.id === event.messageId
+              ? { ...prev, content: prev.content + event.content }
+              : prev
+          );
+          break;
+        case "turn_end": {
+          const { message } = event;
+          setRun(event.run);
+          setStreamingMessage(null);
+          clearQueueStatus(event.speaker);
+          if (message) {
+            setMessages(prev => [...prev, toMessage(message)]);
+          }
+          break;
+        }
+        case "moderator_message": {
+          const { message } = event;
+          setRun(event.run);
+          setMessages(prev => [...prev, toMessage(message)]);
+          break;
+        }
+        case "transcript":
+          setRun(event.run);
+          setMessages(event.messages.map(toMessage));
+          break;
+        case "error": {
+          const name = event.run.participants.find(p => p.id === event.speaker)?.name ?? event.speaker;
+          setRun(event.run);
+          setStreamingMessage(null);
+          clearQueueStatus(event.speaker);
+          console.error(`[${name}] Streaming Error (${event.code ?? "unknown"}):`, event.error);
+          toast.error(`${name} Error: ${event.error}`, {
+            description: getErrorHint(event.code),
+            duration: 6000,
+          });
+          break;
+        }
+        case "turn_scored": {
+          const { messageId, score } = event;
+          setMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, score } : msg)));
+          break;
+        }
+        case "verdict": {
+          const { verdict } = event;
+          setRun(event.run);
+          toast.success(verdict.winnerName ? `Judge: ${verdict.winnerName} wins` : "Judge: it's a tie", {
+            description: verdict.rationale,
+            duration: 8000,
+          });
+          break;
+        }
+        case "summary": {
+          const { summary } = event;
+          setRun(prev => (prev ? { ...prev, summary } : prev));
+          break;
+        }
+        case "summary_error":
+          console.error(`[Memory] Error (${event.code ?? "unknown"}):`, event.error);
+          toast.error(`Memory Error: ${event.error}`, {
+            description: "The conversation goes on with the previous summary.",
+            duration: 6000,
+          });
+          break;
+        case "judge_error":
+          console.error(`[Judge] Error (${event.code ?? "unknown"}):`, event.error);
+          toast.error(`Judge Error: ${event.error}`, {
+            description: getErrorHint(event.code),
+            duration: 6000,
+          });
+          break;
+      }
+    };
+
+    // The stream fails outright when the run is gone, e.g. after a server restart
+    const handleConnectionError = () => {
+      fetchRun(runId).catch(error => {
+        if (error instanceof RunApiError && error.code === "RUN_NOT_FOUND") {
+          toast.error("This conversation is no longer available on the server.");
+          navigate("/", { replace: true });
+        }
+      });
+    };
 
-  const [llm2Config, setLlm2Config] = useState<LLMConfig>({
-    model: "groq-llama-8b",
-    temperature: 0.7,
-    maxTokens: 200,
-    systemPrompt: initialLlm2SystemPrompt,
-  });
+    return subscribeToRun(runId, handleEvent, handleConnectionError);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runId]);
 
-  const [isLlm1Typing, setIsLlm1Typing] = useState(false);
-  const [isLlm2Typing, setIsLlm2Typing] = useState(false);
-  const [isLlm1Thinking, setIsLlm1Thinking] = useState(false);
-  const [isLlm2Thinking, setIsLlm2Thinking] = useState(false);
-  const [isLlm1Generating, setIsLlm1Generating] = useState(false);
-  const [isLlm2Generating, setIsLlm2Generating] = useState(false);
-  const [streamingMessageIds, setStreamingMessageIds] = useState<Set<string>>(new Set());
-  const hasAutoStarted = useRef(false);
-  const llm1ContentQueue = useRef<string[]>([]);
-  const llm1ProcessingQueue = useRef(false);
-  const llm2ContentQueue = useRef<string[]>([]);
-  const llm2ProcessingQueue = useRef(false);
-
-  // Combine all messages for unified chat view
-  const allMessages = useMemo(() => {
-    const combined: Message[] = [];
-    
-    // Add all LLM1 messages with sender info
-    llm1Messages.forEach(msg => {
-      combined.push({ ...msg, sender: "llm1" });
-    });
-    
-    // Add all LLM2 messages with sender info
-    llm2Messages.forEach(msg => {
-      combined.push({ ...msg, sender: "llm2" });
-    });
-    
-    // Sort by ID (which includes timestamp) to maintain chronological order
-    // Messages are added with Date.now() so higher ID = later message
-    return combined.sort((a, b) => {
-      const idA = parseInt(a.id) || 0;
-      const idB = parseInt(b.id) || 0;
-      return idA - idB;
-    });
-  }, [llm1Messages, llm2Messages]);
-
-  // Filter messages for each panel: show streaming messages only on the generating panel
-  const llm1PanelMessages = useMemo(() => {
-    return allMessages.filter(msg => {
-      // Show all messages, including LLM1's streaming messages
-      // But hide LLM2's streaming messages (only show completed ones)
-      if (msg.sender === "llm2" && streamingMessageIds.has(msg.id)) {
-        return false; // Hide LLM2's streaming messages from LLM1 panel
-      }
-      return true;
-    });
-  }, [allMessages, streamingMessageIds]);
-
-  const llm2PanelMessages = useMemo(() => {
-    return allMessages.filter(msg => {
-      // Show all messages, including LLM2's streaming messages
-      // But hide LLM1's streaming messages (only show completed ones)
-      if (msg.sender === "llm1" && streamingMessageIds.has(msg.id)) {
-        return false; // Hide LLM1's streaming messages from LLM2 panel
-      }
-      return true;
-    });
-  }, [allMessages, streamingMessageIds]);
+  // Settings edits apply to the run from its next turn
+  useEffect(() => {
+    if (!runId || !run) return;
+    const timer = setTimeout(() => {
+      pushSettings().catch(error => showError(error));
+    }, SETTINGS_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [participants, turnOrder, speakingOrder, autoPlay, stopConditions, judge, summarizer]);
 
-  const handleStart = () => {
-    setIsRunning(true);
-    // Use the starting LLM from navigation state, default to llm1
-    setCurrentTurn(startingLlm || "llm1");
-    setTurnCount(1);
+  // Keep the branch tree current while it is shown
+  useEffect(() => {
+    if (!runId || sidePanel !== "branches") return;
+    fetchBranches(runId)
+      .then(setBranches)
+      .catch(error => showError(error, "Branches"));
+  }, [runId, sidePanel, run?.turnCount, run?.status]);
+
+  // Transcript plus the reply being streamed
+  const allMessages = useMemo(
+    () => (streamingMessage ? [...messages, streamingMessage] : messages),
+    [messages, streamingMessage]
+  );
+
+  const getColor = (msg: Message) =>
+    msg.moderator ? MODERATOR_COLOR : participants.find(p => p.id === msg.sender)?.color ?? FALLBACK_COLOR;
+
+  // Running token and cost totals per participant and for the whole conversation
+  const usageTotals = useMemo(() => {
+    const perParticipant = participants.map(({ id, name, color }) => ({
+      id,
+      name,
+      color,
+      totals: sumUsage(messages.filter(msg => msg.sender === id)),
+    }));
+    const total = perParticipant.reduce((sum, p) => addUsageTotals(sum, p.totals), emptyUsageTotals);
+    return { participants: perParticipant, total };
+  }, [messages, participants]);
+
+  // Judge's running averages, from the scores on the transcript
+  const standings = useMemo(
+    () => getStandings(participants, messages.map(msg => ({ speaker: msg.sender ?? null, score: msg.score }))),
+    [messages, participants]
+  );
+
+  // Each panel shows another participant's reply only once it has finished
+  const getPanelMessages = (participantId: string) =>
+    allMessages
+      .filter(msg => msg !== streamingMessage || msg.sender === participantId)
+      .map(msg => ({ ...msg, color: getColor(msg), isStreaming: msg === streamingMessage }));
+
+  // Token budget of the participant's latest turn, including one in progress
+  const getContextUsage = (participantId: string) =>
+    [...allMessages].reverse().find(msg => msg.sender === participantId && msg.context)?.context ?? null;
+
+  const isRunning = run?.status === "running";
+  // Messages can change only while no turn is playing or about to
+  const canChangeTranscript =
+    Boolean(run) && run?.status !== "stopped" && !run?.activeSpeaker && !(isRunning && run?.autoPlay);
+  const currentTurn = isRunning ? run.currentTurn : null;
+  const activeSpeaker = run?.activeSpeaker ?? null;
+  // Counts the turn being played, like the turn indicator always has
+  const turnCount = (run?.turnCount ?? 0) + (activeSpeaker ? 1 : 0);
+  const isWaitingForText = !streamingMessage?.content;
+  const findParticipant = (id: string | null) => participants.find(p => p.id === id);
+  const currentSpeaker = findParticipant(currentTurn) ?? null;
+  const activeParticipant = findParticipant(activeSpeaker) ?? null;
+
+  const updateParticipant = (id: string, changes: Partial<RunParticipant>) => {
+    setParticipants(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
   };
 
-  const handlePause = () => {
-    setIsRunning(false);
-    setCurrentTurn(null);
+  const handleAddParticipant = () => {
+    const added = createParticipant(participants, topic);
+    setParticipants(prev => [...prev, added]);
+    // Give them a place in a custom order straight away
+    if (turnOrder === "custom") {
+      setSpeakingOrder(prev => [...prev, added.id]);
+    }
   };
 
-  const handleReset = () => {
-    setIsRunning(false);
-    setCurrentTurn(null);
-    setTurnCount(0);
-    hasAutoStarted.current = false; // Reset auto-start flag
-    setLlm1Messages([]);
-    setLlm2Messages([]);
-    setIsLlm1Typing(false);
-    setIsLlm2Typing(false);
-    setIsLlm1Thinking(false);
-    setIsLlm2Thinking(false);
-    setStreamingMessageIds(new Set());
+  const handleRemoveParticipant = (id: string) => {
+    setParticipants(prev => prev.filter(p => p.id !== id));
+    const remaining = speakingOrder.filter(speaker => speaker !== id);
+    setSpeakingOrder(remaining);
+    if (turnOrder === "custom" && remaining.length === 0) {
+      setTurnOrder("round-robin");
+    }
+  };
+
+  const handleSpeakingOrderChange = (order: TurnOrder, speakers: string[]) => {
+    setTurnOrder(order);
+    setSpeakingOrder(speakers);
   };
 
-  const handleLlm1SendMessage = async () => {
-    if (!isRunning && turnCount === 0) {
-      // First message - need to start the conversation
-      setIsRunning(true);
-      setCurrentTurn("llm1");
-      setTurnCount(1);
+  const handleStart = async () => {
+    if (!runId) return;
+    try {
+      await pushSettings();
+      await startRun(runId);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handlePause = async () => {
+    if (!runId) return;
+    try {
+      await pauseRun(runId);
+    } catch (error) {
+      showError(error);
     }
+  };
 
-    // Show "thinking" for 2 seconds before starting generation (only on LLM1 side)
-    setIsLlm1Thinking(true);
-    setIsLlm1Generating(true); // Disable send button
-    
-    // Use requestAnimationFrame to ensure React renders the thinking state
-    await new Promise(resolve => {
-      requestAnimationFrame(() => {
-        setTimeout(resolve, 100);
+  // Ends the current run and sets up a fresh one on the same topic
+  const handleReset = async () => {
+    if (runId) {
+      await stopRun(runId).catch(() => {
+        // Already gone (e.g. the server restarted); start over regardless
       });
-    });
-    
-    // Wait 2 seconds before starting generation
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsLlm1Thinking(false);
-    // Only show typing on LLM2 side while LLM1 is generating
-    setIsLlm2Typing(true);
+    }
+    setRun(null);
+    setMessages([]);
+    setStreamingMessage(null);
+    setQueueStatus({});
+    syncedSettings.current = "";
+    // A conversation reopened from the history has no topic in the page state
+    const nextTopic = topic || run?.topic;
+    if (nextTopic) {
+      setSearchParams({}, { replace: true, state: { ...(location.state as object), topic: nextTopic } });
+    } else {
+      navigate("/", { replace: true });
+    }
+  };
 
+  const handleInterject = async (content: string) => {
+    if (!runId) return false;
     try {
-      // Format conversation history for API
-      const conversationHistory = formatMessagesForAPI(
-        llm1Messages,
-        llm2Messages,
-        'llm1'
-      );
-
-      // If no conversation history yet, use the topic as the initial message
-      if (conversationHistory.length === 0 && topic) {
-        conversationHistory.push({
-          role: 'user',
-          content: `Let's discuss: "${topic}". Please start the conversation.`
-        });
-      }
-
-      // Create a temporary message for streaming
-      const tempMessageId = Date.now().toString();
-      const tempMessage: Message = {
-        id: tempMessageId,
-        content: '',
-        timestamp: new Date().toLocaleTimeString(),
-        sender: "llm1",
-      };
-      setLlm1Messages([...llm1Messages, tempMessage]);
-      setStreamingMessageIds(prev => new Set(prev).add(tempMessageId)); // Mark as streaming
-
-      // Call the streaming API
-      let accumulatedContent = '';
-      llm1ContentQueue.current = [];
-      llm1ProcessingQueue.current = false;
-      
-      // Process queue function
-      const processLlm1Queue = async () => {
-        if (llm1ProcessingQueue.current) return;
-        llm1ProcessingQueue.current = true;
-        
-        while (llm1ContentQueue.current.length > 0) {
-          const chunk = llm1ContentQueue.current.shift() || '';
-          // Process character-by-character for smooth streaming effect
-          for (let i = 0; i < chunk.length; i++) {
-            accumulatedContent += chunk[i];
-            setLlm1Messages(prev => 
-              prev.map(msg => 
-                msg.id === tempMessageId 
-                  ? { ...msg, content: accumulatedContent }
-                  : msg
-              )
-            );
-            // Small delay for character-by-character effect (slower for better visibility)
-            await new Promise(resolve => setTimeout(resolve, 40));
-          }
-        }
-        
-        llm1ProcessingQueue.current = false;
-      };
-      
-      await generateLLMResponseStream(
-        {
-          model: llm1Config.model,
-          temperature: llm1Config.temperature,
-          maxTokens: llm1Config.maxTokens,
-          systemPrompt: llm1Config.systemPrompt,
-          conversationHistory,
-        },
-        (chunk: string) => {
-          // Add chunk to queue
-          llm1ContentQueue.current.push(chunk);
-          // Process queue if not already processing
-          processLlm1Queue();
-        },
-        async () => {
-          // Wait for queue to finish processing
-          while (llm1ProcessingQueue.current || llm1ContentQueue.current.length > 0) {
-            await new Promise(resolve => setTimeout(resolve, 50));
-          }
-          // Streaming complete
-          setIsLlm2Typing(false);
-          setIsLlm1Thinking(false);
-          setIsLlm1Generating(false);
-          setStreamingMessageIds(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(tempMessageId); // Remove from streaming set
-            return newSet;
-          });
-          if (!accumulatedContent || accumulatedContent.trim() === '') {
-            // Remove empty message
-            setLlm1Messages(prev => prev.filter(msg => msg.id !== tempMessageId));
-            toast.error(`LLM 1 Error: Received empty response.`, {
-              duration: 6000,
-            });
-          } else {
-            setCurrentTurn("llm2");
-            setTurnCount(turnCount + 1);
-          }
-        },
-        (error: string) => {
-          // Error occurred
-          setIsLlm2Typing(false);
-          setIsLlm1Thinking(false);
-          setIsLlm1Generating(false);
-          setStreamingMessageIds(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(tempMessageId); // Remove from streaming set
-            return newSet;
-          });
-          setLlm1Messages(prev => prev.filter(msg => msg.id !== tempMessageId));
-          console.error(`[LLM1] Streaming Error:`, error);
-          toast.error(`LLM 1 Error: ${error}`, {
-            duration: 6000,
-          });
-        }
-      );
+      await addModeratorMessage(runId, content);
+      return true;
     } catch (error) {
-      setIsLlm2Typing(false);
-      setIsLlm1Thinking(false);
-      setIsLlm1Generating(false);
-      console.error('Error generating LLM1 response:', error);
-      toast.error(`LLM 1 Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      showError(error, "Moderator");
+      return false;
     }
   };
 
-  const handleLlm2SendMessage = async () => {
-    if (!isRunning && turnCount === 0) {
-      // First message - need to start the conversation
-      setIsRunning(true);
-      setCurrentTurn("llm2");
-      setTurnCount(1);
+  const handleRequestVerdict = async () => {
+    if (!runId) return;
+    try {
+      await pushSettings();
+      await requestVerdict(runId);
+    } catch (error) {
+      showError(error, "Judge");
     }
+  };
 
-    // Show "thinking" for 2 seconds before starting generation (only on LLM2 side)
-    setIsLlm2Thinking(true);
-    setIsLlm2Generating(true); // Disable send button
-    
-    // Use requestAnimationFrame to ensure React renders the thinking state
-    await new Promise(resolve => {
-      requestAnimationFrame(() => {
-        setTimeout(resolve, 100);
+  // Forks a branch from the message and switches to it; the current branch keeps playing
+  const handleBranch = async (messageId: string) => {
+    if (!runId) return;
+    try {
+      await pushSettings();
+      const branch = await forkRun(runId, messageId);
+      setSearchParams({ run: branch.id }, { state: location.state });
+      setSidePanel("branches");
+      toast.success(`Switched to ${branch.branchName}`, {
+        description: "It continues from that message. Press Start to play it.",
       });
-    });
-    
-    // Wait 2 seconds before starting generation
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsLlm2Thinking(false);
-    // Only show typing on LLM1 side while LLM2 is generating
-    setIsLlm1Typing(true);
+    } catch (error) {
+      showError(error, "Branch");
+    }
+  };
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!runId) return;
     try {
-      // Format conversation history for API
-      const conversationHistory = formatMessagesForAPI(
-        llm1Messages,
-        llm2Messages,
-        'llm2'
-      );
-
-      // If no conversation history yet, use the topic as the initial message
-      if (conversationHistory.length === 0 && topic) {
-        conversationHistory.push({
-          role: 'user',
-          content: `Let's discuss: "${topic}". Please start the conversation.`
-        });
-      }
+      await downloadConversation(runId, format);
+    } catch (error) {
+      showError(error, "Export");
+    }
+  };
 
-      // Create a temporary message for streaming
-      const tempMessageId = Date.now().toString();
-      const tempMessage: Message = {
-        id: tempMessageId,
-        content: '',
-        timestamp: new Date().toLocaleTimeString(),
-        sender: "llm2",
-      };
-      setLlm2Messages([...llm2Messages, tempMessage]);
-      setStreamingMessageIds(prev => new Set(prev).add(tempMessageId)); // Mark as streaming
-
-      // Call the streaming API
-      let accumulatedContent = '';
-      llm2ContentQueue.current = [];
-      llm2ProcessingQueue.current = false;
-      
-      // Process queue function
-      const processLlm2Queue = async () => {
-        if (llm2ProcessingQueue.current) return;
-        llm2ProcessingQueue.current = true;
-        
-        while (llm2ContentQueue.current.length > 0) {
-          const chunk = llm2ContentQueue.current.shift() || '';
-          // Process character-by-character for smooth streaming effect
-          for (let i = 0; i < chunk.length; i++) {
-            accumulatedContent += chunk[i];
-            setLlm2Messages(prev => 
-              prev.map(msg => 
-                msg.id === tempMessageId 
-                  ? { ...msg, content: accumulatedContent }
-                  : msg
-              )
-            );
-            // Small delay for character-by-character effect (slower for better visibility)
-            await new Promise(resolve => setTimeout(resolve, 40));
-          }
-        }
-        
-        llm2ProcessingQueue.current = false;
-      };
-      
-      await generateLLMResponseStream(
-        {
-          model: llm2Config.model,
-          temperature: llm2Config.temperature,
-          maxTokens: llm2Config.maxTokens,
-          systemPrompt: llm2Config.systemPrompt,
-          conversationHistory,
-        },
-        (chunk: string) => {
-          // Add chunk to queue
-          llm2ContentQueue.current.push(chunk);
-          // Process queue if not already processing
-          processLlm2Queue();
-        },
-        async () => {
-          // Wait for queue to finish processing
-          while (llm2ProcessingQueue.current || llm2ContentQueue.current.length > 0) {
-            await new Promise(resolve => setTimeout(resolve, 50));
-          }
-          // Streaming complete
-          setIsLlm1Typing(false);
-          setIsLlm2Thinking(false);
-          setIsLlm2Generating(false);
-          setStreamingMessageIds(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(tempMessageId); // Remove from streaming set
-            return newSet;
-          });
-          if (!accumulatedContent || accumulatedContent.trim() === '') {
-            // Remove empty message
-            setLlm2Messages(prev => prev.filter(msg => msg.id !== tempMessageId));
-            toast.error(`LLM 2 Error: Received empty response.`, {
-              duration: 6000,
-            });
-          } else {
-            setCurrentTurn("llm1");
-            setTurnCount(turnCount + 1);
-          }
-        },
-        (error: string) => {
-          // Error occurred
-          setIsLlm1Typing(false);
-          setIsLlm2Thinking(false);
-          setIsLlm2Generating(false);
-          setStreamingMessageIds(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(tempMessageId); // Remove from streaming set
-            return newSet;
-          });
-          setLlm2Messages(prev => prev.filter(msg => msg.id !== tempMessageId));
-          console.error(`[LLM2] Streaming Error:`, error);
-          toast.error(`LLM 2 Error: ${error}`, {
-            duration: 6000,
-          });
-        }
-      );
+  const handleRegenerate = async (messageId: string) => {
+    if (!runId) return;
+    try {
+      // Regenerates with the panel's current settings
+      await pushSettings();
+      await regenerateMessage(runId, messageId);
     } catch (error) {
-      setIsLlm1Typing(false);
-      setIsLlm2Thinking(false);
-      setIsLlm2Generating(false);
-      console.error('Error generating LLM2 response:', error);
-      toast.error(`LLM 2 Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      showError(error, "Regenerate");
     }
   };
 
-  // Auto-start conversation when topic and starting LLM are provided
-  useEffect(() => {
-    if (topic && startingLlm && !hasAutoStarted.current && !isRunning && turnCount === 0) {
-      hasAutoStarted.current = true;
-      // Small delay to ensure component is fully mounted and handlers are ready
-      const timer = setTimeout(() => {
-        if (startingLlm === "llm1") {
-          handleLlm1SendMessage();
-        } else {
-          handleLlm2SendMessage();
-        }
-      }, 500);
-      return () => clearTimeout(timer);
+  const handleEditMessage = async (messageId: string, content: string) => {
+    if (!runId) return false;
+    try {
+      await editMessage(runId, messageId, content);
+      return true;
+    } catch (error) {
+      showError(error, "Edit");
+      return false;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [topic, startingLlm, isRunning, turnCount]);
+  };
+
+  const handleDeleteFrom = async (messageId: string) => {
+    if (!runId) return;
+    try {
+      await deleteMessagesFrom(runId, messageId);
+    } catch (error) {
+      showError(error, "Delete");
+    }
+  };
+
+  const handleSelectVersion = async (messageId: string, version: number) => {
+    if (!runId) return;
+    try {
+      await selectVersion(runId, messageId, version);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSwitchBranch = (id: string) => {
+    setSearchParams({ run: id }, { state: location.state });
+  };
+
+  const handleSendMessage = async (participant: RunParticipant) => {
+    if (!runId) return;
+    try {
+      await pushSettings();
+      await playTurn(runId, participant.id);
+    } catch (error) {
+      showError(error, participant.name);
+    }
+  };
 
   return (
     <div className="h-screen flex flex-col bg-background">
       <GlobalControls
         isRunning={isRunning}
-        currentTurn={currentTurn}
+        currentSpeaker={currentSpeaker}
         turnCount={turnCount}
+        usage={usageTotals}
+        autoPlay={autoPlay}
+        onAutoPlayChange={setAutoPlay}
         onStart={handleStart}
         onPause={handlePause}
         onReset={handleReset}
+        sidePanel={sidePanel}
+        onSidePanelChange={setSidePanel}
+        branchName={run?.branchName ?? null}
+        onExport={handleExport}
+        canExport={messages.length > 0}
+      />
+      <SpeakingOrderControls
+        participants={participants}
+        turnOrder={turnOrder}
+        speakingOrder={speakingOrder}
+        currentTurn={currentTurn}
+        onChange={handleSpeakingOrderChange}
+        onAddParticipant={handleAddParticipant}
+        canAddParticipant={participants.length < MAX_PARTICIPANTS}
+      />
+      <StopConditionsControls
+        stopConditions={stopConditions}
+        onChange={setStopConditions}
+        stopReason={run?.status === "finished" ? run.stopReason : null}
       />
 
-      <div className="flex-1 grid grid-cols-2 divide-x divide-border overflow-hidden">
-        {/* LLM 1 Panel */}
-        <div className="bg-card/30 h-full overflow-hidden">
-          <ChatPanel
-            side="llm1"
-            title="LLM 1"
-            messages={llm1PanelMessages}
-            isTyping={isLlm1Typing}
-            isThinking={isLlm1Thinking}
-            isGenerating={isLlm1Generating}
-            model={llm1Config.model}
-            temperature={llm1Config.temperature}
-            maxTokens={llm1Config.maxTokens}
-            systemPrompt={llm1Config.systemPrompt}
-            onModelChange={(model) => setLlm1Config({ ...llm1Config, model })}
-            onTemperatureChange={(temperature) => setLlm1Config({ ...llm1Config, temperature })}
-            onMaxTokensChange={(maxTokens) => setLlm1Config({ ...llm1Config, maxTokens })}
-            onSystemPromptChange={(systemPrompt) => setLlm1Config({ ...llm1Config, systemPrompt })}
-            onSendMessage={handleLlm1SendMessage}
-            currentTurn={currentTurn}
-            isRunning={isRunning}
-          />
+      <div className="flex-1 flex min-h-0">
+        {/* One panel per participant, scrolling sideways when they don't fit */}
+        <div
+          className="flex-1 min-w-0 grid divide-x divide-border overflow-x-auto overflow-y-hidden"
+          style={{ gridTemplateColumns: `repeat(${participants.length}, minmax(24rem, 1fr))` }}
+        >
+          {participants.map((participant, index) => (
+            <div key={participant.id} className="bg-card/30 h-full overflow-hidden">
+              <ChatPanel
+                participantId={participant.id}
+                number={index + 1}
+                name={participant.name}
+                color={participant.color}
+                messages={getPanelMessages(participant.id)}
+                isTyping={activeParticipant !== null && activeSpeaker !== participant.id}
+                typingSpeaker={activeSpeaker !== participant.id ? activeParticipant : null}
+                isThinking={activeSpeaker === participant.id && isWaitingForText}
+                isGenerating={activeSpeaker === participant.id}
+                queueStatus={queueStatus[participant.id]}
+                contextUsage={getContextUsage(participant.id)}
+                model={participant.model}
+                temperature={participant.temperature}
+                maxTokens={participant.maxTokens}
+                systemPrompt={participant.systemPrompt}
+                onModelChange={(model) => updateParticipant(participant.id, { model })}
+                onTemperatureChange={(temperature) => updateParticipant(participant.id, { temperature })}
+                onMaxTokensChange={(maxTokens) => updateParticipant(participant.id, { maxTokens })}
+                onSystemPromptChange={(systemPrompt) => updateParticipant(participant.id, { systemPrompt })}
+                fallbackModels={participant.fallbackModels}
+                onFallbackModelsChange={(fallbackModels) => updateParticipant(participant.id, { fallbackModels })}
+                onNameChange={(name) => updateParticipant(participant.id, { name })}
+                onColorChange={(color) => updateParticipant(participant.id, { color })}
+                onRemove={participants.length > 2 ? () => handleRemoveParticipant(participant.id) : undefined}
+                onSendMessage={() => handleSendMessage(participant)}
+                onBranch={handleBranch}
+                onRegenerate={canChangeTranscript ? handleRegenerate : undefined}
+                onEditMessage={canChangeTranscript ? handleEditMessage : undefined}
+                onDeleteFrom={canChangeTranscript ? handleDeleteFrom : undefined}
+                onSelectVersion={canChangeTranscript ? handleSelectVersion : undefined}
+                currentTurn={currentTurn}
+                currentTurnName={currentSpeaker?.name}
+                isRunning={isRunning}
+              />
+            </div>
+          ))}
         </div>
 
-        {/* LLM 2 Panel */}
-        <div className="bg-card/30 h-full overflow-hidden">
-          <ChatPanel
-            side="llm2"
-            title="LLM 2"
-            messages={llm2PanelMessages}
-            isTyping={isLlm2Typing}
-            isThinking={isLlm2Thinking}
-            isGenerating={isLlm2Generating}
-            model={llm2Config.model}
-            temperature={llm2Config.temperature}
-            maxTokens={llm2Config.maxTokens}
-            systemPrompt={llm2Config.systemPrompt}
-            onModelChange={(model) => setLlm2Config({ ...llm2Config, model })}
-            onTemperatureChange={(temperature) => setLlm2Config({ ...llm2Config, temperature })}
-            onMaxTokensChange={(maxTokens) => setLlm2Config({ ...llm2Config, maxTokens })}
-            onSystemPromptChange={(systemPrompt) => setLlm2Config({ ...llm2Config, systemPrompt })}
-            onSendMessage={handleLlm2SendMessage}
-            currentTurn={currentTurn}
-            isRunning={isRunning}
-          />
-        </div>
+        {sidePanel === "branches" && (
+          <div className="w-80 flex-shrink-0 border-l border-border">
+            <BranchPanel
+              branches={branches}
+              currentId={runId}
+              onSelect={handleSwitchBranch}
+              onClose={() => setSidePanel(null)}
+            />
+          </div>
+        )}
+        {sidePanel === "memory" && (
+          <div className="w-80 flex-shrink-0 border-l border-border">
+            <MemoryPanel
+              summarizer={summarizer}
+              onChange={setSummarizer}
+              onEnable={() => setSummarizer(createSummarizer())}
+              summary={run?.summary ?? null}
+              onClose={() => setSidePanel(null)}
+            />
+          </div>
+        )}
+        {sidePanel === "judge" && (
+          <div className="w-80 flex-shrink-0 border-l border-border">
+            <JudgePanel
+              judge={judge}
+              onChange={setJudge}
+              onEnable={() => setJudge(createJudge())}
+              standings={standings}
+              participants={participants}
+              verdict={run?.verdict ?? null}
+              verdictPending={run?.verdictPending ?? false}
+              canRequestVerdict={Boolean(runId) && messages.some(msg => msg.sender)}
+              onRequestVerdict={handleRequestVerdict}
+              onClose={() => setSidePanel(null)}
+            />
+          </div>
+        )}
       </div>
+
+      {run?.status === "stopped" && messages.length > 0 && (
+        <div className="px-6 py-2 border-t border-border bg-muted/40 flex items-center justify-center gap-3 text-sm text-muted-foreground">
+          <span>This conversation was ended.</span>
+          <Button
+            onClick={() => handleBranch(messages[messages.length - 1].id)}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+          >
+            <GitBranch className="w-4 h-4" />
+            Continue in a new branch
+          </Button>
+        </div>
+      )}
+      <ModeratorInput onSend={handleInterject} disabled={!runId || run?.status === "stopped"} />
     </div>
   );
 };
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Loader2, MessageSquare, Pause, Play, SkipBack, SkipForward } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ReplayPanel, type ReplayMessage } from "@/components/ReplayPanel";
+import { getConversationTitle } from "@/lib/conversations";
+import { getErrorHint } from "@/lib/errors";
+import { FALLBACK_COLOR, MODERATOR_COLOR } from "@/lib/participants";
+import {
+  getReplayFrame,
+  getReplaySteps,
+  getStepDuration,
+  type ReplayStep,
+  type ReplayTiming,
+} from "@/lib/replay";
+import { fetchConversation, type ConversationRecord } from "@/services/conversations";
+import { RunApiError, type RunMessage } from "@/services/runs";
+import { toast } from "sonner";
+
+const TICK_MS = 50;
+const SPEEDS = [0.5, 1, 2, 4];
+
+// Where the replay is: messages before `index` are complete and `elapsed`
+// ms have passed in the step of the message at `index`
+interface ReplayPosition {
+  index: number;
+  elapsed: number;
+}
+
+function advance(position: ReplayPosition, steps: ReplayStep[], delta: number): ReplayPosition {
+  let { index, elapsed } = position;
+  elapsed += delta;
+  while (index < steps.length && elapsed >= getStepDuration(steps[index])) {
+    elapsed -= getStepDuration(steps[index]);
+    index++;
+  }
+  return index < steps.length ? { index, elapsed } : { index: steps.length, elapsed: 0 };
+}
+
+/**
+ * Plays a saved conversation back message by message, in the split view,
+ * with its original timing or at a reading pace (?run=...). Nothing is
+ * generated; the transcript is only re-streamed.
+ */
+const Replay = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const runId = searchParams.get("run");
+
+  const [conversation, setConversation] = useState<ConversationRecord | null>(null);
+  const [position, setPosition] = useState<ReplayPosition>({ index: 0, elapsed: 0 });
+  const [playing, setPlaying] = useState(false);
+  const [timing, setTiming] = useState<ReplayTiming>("original");
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    if (!runId) {
+      navigate("/history", { replace: true });
+      return;
+    }
+    fetchConversation(runId)
+      .then(record => {
+        setConversation(record);
+        setPosition({ index: 0, elapsed: 0 });
+      })
+      .catch(error => {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error("[Replay] Loading the conversation failed:", error);
+        toast.error(`Replay Error: ${message}`, {
+          description: getErrorHint(error instanceof RunApiError ? error.code : undefined),
+          duration: 6000,
+        });
+        navigate("/history", { replace: true });
+      });
+  }, [runId, navigate]);
+
+  // Replies cut short before they said anything have nothing to show
+  const messages = useMemo(
+    () => conversation?.messages.filter(msg => msg.content.trim()) ?? [],
+    [conversation]
+  );
+  const steps = useMemo(() => getReplaySteps(messages, timing), [messages, timing]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setPosition(prev => advance(prev, steps, TICK_MS * speed));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, steps, speed]);
+
+  // Stop at the end
+  useEffect(() => {
+    if (playing && position.index >= messages.length) {
+      setPlaying(false);
+    }
+  }, [playing, position.index, messages.length]);
+
+  if (!conversation) {
+    return (
+      <div className="h-screen flex items-center justify-center text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  const { participants } = conversation;
+  const { index, elapsed } = position;
+  // Paused at the start of a step, the message hasn't begun
+  const current: RunMessage | undefined = playing || elapsed > 0 ? messages[index] : undefined;
+  const frame = current ? getReplayFrame(steps[index], elapsed, current.content.length) : null;
+  const speaker = current && !current.moderator ? participants.find(p => p.id === current.speaker) : undefined;
+  // The current reply while it is still being thought about or typed
+  const inProgress = frame && frame.phase !== "done" ? current : undefined;
+
+  const toReplayMessage = (message: RunMessage, content = message.content): ReplayMessage => ({
+    id: message.id,
+    content,
+    timestamp: new Date(message.createdAt).toLocaleTimeString(),
+    sender: message.speaker ?? undefined,
+    name: message.name,
+    color: message.moderator
+      ? MODERATOR_COLOR
+      : participants.find(p => p.id === message.speaker)?.color ?? FALLBACK_COLOR,
+    moderator: message.moderator,
+    interrupted: message.interrupted,
+    model: message.model,
+    fallbackFrom: message.fallbackFrom,
+    usage: message.usage,
+    cost: message.cost,
+    score: message.score,
+    edited: message.edited,
+  });
+
+  const shownCount = frame?.phase === "done" ? index + 1 : index;
+  const complete = messages.slice(0, shownCount).map(msg => toReplayMessage(msg));
+
+  // As in the chat view, a reply being typed shows only in its speaker's panel
+  const getPanelMessages = (participantId: string) =>
+    inProgress && frame?.phase === "typing" && inProgress.speaker === participantId
+      ? [...complete, toReplayMessage(inProgress, inProgress.content.slice(0, frame.chars))]
+      : complete;
+
+  const handlePlay = () => {
+    if (index >= messages.length) {
+      setPosition({ index: 0, elapsed: 0 });
+    }
+    setPlaying(true);
+  };
+
+  // Back to the start of the current message, or to the one before
+  const handleStepBack = () => {
+    setPlaying(false);
+    setPosition(elapsed > 0 ? { index, elapsed: 0 } : { index: Math.max(0, index - 1), elapsed: 0 });
+  };
+
+  const handleStepForward = () => {
+    setPlaying(false);
+    setPosition({ index: Math.min(messages.length, index + 1), elapsed: 0 });
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <div className="px-6 py-4 bg-card border-b border-border shadow-sm">
+        <div className="flex items-center justify-between gap-4 max-w-screen-xl mx-auto">
+          <div className="flex items-center gap-4 min-w-0">
+            <Button asChild variant="ghost" size="sm" className="gap-2">
+              <Link to="/history">
+                <ArrowLeft className="w-4 h-4" />
+                History
+              </Link>
+            </Button>
+            <h1 className="text-xl font-bold text-foreground truncate">{getConversationTitle(conversation)}</h1>
+            <Badge variant="secondary" className="text-xs flex-shrink-0">
+              Replay
+            </Badge>
+          </div>
+
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Select value={timing} onValueChange={(value) => setTiming(value as ReplayTiming)}>
+              <SelectTrigger className="h-9 w-40 text-sm" aria-label="Timing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">Original timing</SelectItem>
+                <SelectItem value="reading">Reading pace</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+              <SelectTrigger className="h-9 w-20 text-sm" aria-label="Speed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPEEDS.map(value => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value}×
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button asChild variant="outline" size="sm" className="gap-2">
+              <Link to={`/chat?run=${conversation.id}`}>
+                <MessageSquare className="w-4 h-4" />
+                Open in chat
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Transport and scrubber */}
+      <div className="px-6 py-2.5 border-b border-border bg-card/50">
+        <div className="flex items-center gap-3 max-w-screen-xl mx-auto">
+          <Button onClick={handleStepBack} variant="ghost" size="icon" className="h-8 w-8" aria-label="Step back" disabled={index === 0 && elapsed === 0}>
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          {playing ? (
+            <Button onClick={() => setPlaying(false)} variant="secondary" size="sm" className="gap-2 w-24">
+              <Pause className="w-4 h-4" />
+              Pause
+            </Button>
+          ) : (
+            <Button onClick={handlePlay} size="sm" className="gap-2 w-24" disabled={messages.length === 0}>
+              <Play className="w-4 h-4" />
+              {index >= messages.length && messages.length > 0 ? "Replay" : "Play"}
+            </Button>
+          )}
+          <Button onClick={handleStepForward} variant="ghost" size="icon" className="h-8 w-8" aria-label="Step forward" disabled={index >= messages.length}>
+            <SkipForward className="w-4 h-4" />
+          </Button>
+          <Slider
+            value={[index]}
+            onValueChange={([value]) => setPosition({ index: value, elapsed: 0 })}
+            min={0}
+            max={messages.length}
+            step={1}
+            className="flex-1"
+            aria-label="Jump to message"
+          />
+          <span className="text-xs text-muted-foreground w-28 text-right tabular-nums">
+            Message {shownCount} of {messages.length}
+          </span>
+        </div>
+      </div>
+
+      <div
+        className="flex-1 min-h-0 grid divide-x divide-border overflow-x-auto overflow-y-hidden"
+        style={{ gridTemplateColumns: `repeat(${participants.length}, minmax(24rem, 1fr))` }}
+      >
+        {participants.map((participant, number) => (
+          <div key={participant.id} className="bg-card/30 h-full overflow-hidden">
+            <ReplayPanel
+              participantId={participant.id}
+              number={number + 1}
+              name={participant.name}
+              color={participant.color}
+              model={participant.model}
+              messages={getPanelMessages(participant.id)}
+              isThinking={frame?.phase === "thinking" && speaker?.id === participant.id}
+              typingSpeaker={inProgress && speaker && speaker.id !== participant.id ? speaker : null}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
@@ -0,0 +1,88 @@
+import { API_BASE_URL, getRequestHeaders } from "./api";
+import {
+  apiRequest,
+  RunApiError,
+  type CreateRunRequest,
+  type RunMessage,
+  type RunParticipant,
+  type RunSummary,
+  type UpdateRunRequest,
+} from "./runs";
+
+/**
+ * Client for saved conversations (/api/conversations)
+ *
+ * Every run is saved as a conversation with the same id, so a saved
+ * conversation opens in the chat page like any run (/chat?run=...).
+ */
+
+export interface SavedConversation extends RunSummary {
+  messageCount: number;
+}
+
+export interface ConversationRecord extends RunSummary {
+  turnIndex: number;
+  messages: RunMessage[];
+}
+
+// A message to save; the server fills in ids and links
+export type NewConversationMessage = Pick<RunMessage, "speaker" | "name" | "content"> & Partial<RunMessage>;
+
+// Settings left out get the server's defaults
+export interface CreateConversationRequest extends Partial<CreateRunRequest> {
+  participants: RunParticipant[];
+  messages: NewConversationMessage[];
+}
+
+/**
+ * Every saved conversation without its transcript, most recently updated first
+ */
+export const fetchConversations = () =>
+  apiRequest<{ conversations: SavedConversation[] }>("/conversations").then(data => data.conversations);
+
+export const fetchConversation = (id: string) => apiRequest<ConversationRecord>(`/conversations/${id}`);
+
+export const createConversation = (conversation: CreateConversationRequest) =>
+  apiRequest<ConversationRecord>("/conversations", "POST", conversation);
+
+// Settings as for a run; messages replace the whole transcript
+export interface UpdateConversationRequest extends UpdateRunRequest {
+  messages?: NewConversationMessage[];
+}
+
+export const updateConversation = (id: string, changes: UpdateConversationRequest) =>
+  apiRequest<ConversationRecord>(`/conversations/${id}`, "PATCH", changes);
+
+/**
+ * Stops the conversation if it is playing and deletes it for good
+ */
+export const deleteConversation = (id: string) => apiRequest<void>(`/conversations/${id}`, "DELETE");
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { markdown: "md", json: "json", html: "html" };
+
+/**
+ * Downloads the conversation as a Markdown, JSON or HTML file, named by the
+ * server after its title
+ */
+export async function downloadConversation(id: string, format: ExportFormat): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/conversations/${id}/export?format=${format}`, {
+    headers: getRequestHeaders(),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new RunApiError(data.error || `HTTP error! status: ${response.status}`, data.code);
+  }
+
+  // The server names the file after the title; the header needs CORS to expose it
+  const fileName =
+    response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+    `conversation-${id}.${EXPORT_EXTENSIONS[format]}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
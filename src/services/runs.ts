@@ -0,0 +1,348 @@
+import { API_BASE_URL, getRequestHeaders, type LLMErrorCode, type TokenUsage } from "./api";
+
+/**
+ * Client for server-side conversation runs (/api/runs)
+ *
+ * The server plays the turns and saves every run as a conversation as it
+ * goes; the chat page creates a run, sends controls and renders the run's
+ * event stream.
+ */
+
+export type RunStatus = "idle" | "running" | "paused" | "stopped" | "finished";
+
+export type TurnOrder = "round-robin" | "custom";
+
+export interface RunParticipant {
+  id: string;
+  name: string;
+  color: string; // Hex colour, e.g. "#3b82f6"
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string; // The participant's persona
+  fallbackModels: string[];
+}
+
+// More rules that end auto-play besides maxTurns; see server/services/stopConditions.js
+export interface StopConditions {
+  maxTokens: number | null; // Total tokens of the participants' replies
+  stopPhrase: string; // e.g. "[END]"; empty for none
+  repetition: number | null; // Share of a reply's phrases repeated from recent turns, 0.1-1
+  agreement: boolean; // End once every participant agrees to conclude
+}
+
+export type StopRule = "max_turns" | "max_tokens" | "stop_phrase" | "repetition" | "agreement";
+
+export interface StopReason {
+  rule: StopRule;
+  detail: string; // What happened, e.g. 'Ada said "[END]"'
+  messageId?: string; // Reply that met the rule
+  createdAt: string;
+}
+
+// Estimated token budget of a turn; see server/services/contextBudget.js
+export interface ContextUsage {
+  limit: number; // Smallest context window among the model and its fallbacks
+  system: number; // System prompt, including any summary
+  history: number;
+  reply: number; // Reserved for the reply (max tokens, at most half the window)
+  messages: number; // Messages included in the history
+  trimmed: number; // Messages left out to fit, not covered by a summary
+}
+
+// Summary memory; without it participants see as much history as fits
+export interface SummarizerConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  fallbackModels: string[];
+  recentMessages: number; // Latest messages kept word for word
+}
+
+export interface ConversationSummary {
+  content: string;
+  coveredCount: number; // The first coveredCount messages are summarised
+  model: string;
+  usage?: TokenUsage;
+  cost?: number | null; // All updates so far
+  updatedAt: string;
+}
+
+export interface JudgeConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  fallbackModels: string[];
+  rubric: string; // Judge's system prompt; empty uses the server's default
+  criteria: string[]; // Each turn is scored 1-10 on these
+}
+
+export interface TurnScore {
+  scores: Record<string, number>; // Criterion -> 1-10
+  average: number;
+  rationale: string;
+  model: string;
+  usage?: TokenUsage;
+  cost?: number | null;
+}
+
+export interface Standing {
+  id: string;
+  name: string;
+  average: number | null; // null until one of their turns is scored
+  scoredTurns: number;
+}
+
+export interface Verdict {
+  winner: string | null; // Participant id, null for a tie
+  winnerName: string | null;
+  rationale: string;
+  standings: Standing[];
+  model: string;
+  usage?: TokenUsage;
+  cost?: number | null;
+  turnCount: number; // Turns the verdict covers
+  createdAt: string;
+}
+
+export interface MessageParameters {
+  temperature: number;
+  maxTokens: number; // Reply limit after fitting the context window
+}
+
+export interface RunMessage {
+  id: string; // Stable, and kept by the branches forked after it
+  parentId: string | null; // Message before it, null for the first
+  speaker: string | null; // Participant id, null for moderator messages
+  name: string; // Participant name when the message was written
+  moderator?: boolean; // Written by the human moderator
+  content: string;
+  createdAt: string;
+  model?: string;
+  parameters?: MessageParameters; // Settings the reply was generated with
+  fallbackFrom?: string; // Configured model that failed before the fallback replied
+  usage?: TokenUsage;
+  cost?: number | null;
+  interrupted?: boolean; // Paused before the reply finished
+  context?: ContextUsage; // Token budget the reply was generated with
+  score?: TurnScore; // Set once the judge has scored the turn
+  edited?: boolean; // Text was changed by hand
+  versions?: MessageVersion[]; // Every version of a regenerated reply
+  activeVersion?: number; // Index of the version in the transcript
+}
+
+// One version of a regenerated reply
+export interface MessageVersion {
+  content: string;
+  createdAt: string;
+  model?: string;
+  fallbackFrom?: string;
+  usage?: TokenUsage;
+  cost?: number | null;
+  context?: ContextUsage;
+  parameters?: MessageParameters;
+  score?: TurnScore;
+  interrupted?: boolean;
+  edited?: boolean;
+  following?: RunMessage[]; // Messages after it, kept while another version is shown
+}
+
+// Settings for a regenerated reply only; the participant's are used otherwise
+export type RegenerateOverrides = Partial<
+  Pick<RunParticipant, "model" | "temperature" | "maxTokens" | "systemPrompt" | "fallbackModels">
+>;
+
+// Where a branch was forked off its parent run
+export interface ForkPoint {
+  runId: string;
+  messageId: string;
+  position: number; // 1-based position of that message in the transcript
+  name: string; // Who wrote it
+}
+
+export interface RunSummary {
+  id: string;
+  title: string; // Empty until named; the topic stands in for it
+  rootId: string; // The conversation's first run, shared by all its branches
+  forkedFrom: ForkPoint | null; // null for the first run
+  branchName: string; // "Main" or "Branch N"
+  topic: string;
+  status: RunStatus;
+  autoPlay: boolean;
+  delayMs: number;
+  maxTurns: number;
+  stopConditions: StopConditions;
+  stopReason: StopReason | null; // Set when a stop condition finished the run
+  summarizer: SummarizerConfig | null;
+  summary: ConversationSummary | null;
+  turnOrder: TurnOrder;
+  speakingOrder: string[]; // Participant ids, used when turnOrder is custom
+  currentTurn: string;
+  turnCount: number; // Completed turns
+  activeSpeaker: string | null;
+  participants: RunParticipant[];
+  judge: JudgeConfig | null;
+  verdict: Verdict | null;
+  verdictPending: boolean; // The judge is deciding
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RunSnapshot extends RunSummary {
+  messages: RunMessage[];
+  streamingMessage: RunMessage | null;
+}
+
+export interface CreateRunRequest {
+  title?: string;
+  topic: string;
+  participants: RunParticipant[];
+  turnOrder: TurnOrder;
+  speakingOrder: string[];
+  startingSpeaker?: string;
+  autoPlay: boolean;
+  delayMs: number;
+  maxTurns: number;
+  stopConditions: StopConditions;
+  judge: JudgeConfig | null;
+  summarizer: SummarizerConfig | null;
+}
+
+export interface UpdateRunRequest {
+  title?: string;
+  topic?: string;
+  participants?: RunParticipant[];
+  turnOrder?: TurnOrder;
+  speakingOrder?: string[];
+  autoPlay?: boolean;
+  delayMs?: number;
+  maxTurns?: number;
+  stopConditions?: StopConditions;
+  judge?: JudgeConfig | null;
+  summarizer?: SummarizerConfig | null;
+}
+
+export type RunEvent =
+  | { type: "snapshot"; run: RunSnapshot }
+  | { type: "status"; run: RunSummary; reason?: string }
+  | { type: "turn_start"; speaker: string; messageId: string; model: string; context: ContextUsage; run: RunSummary }
+  | { type: "queued"; speaker: string; queued: boolean; position?: number; waitingFor?: string }
+  | { type: "chunk"; speaker: string; messageId: string; content: string }
+  | { type: "turn_end"; speaker: string; message: RunMessage | null; run: RunSummary }
+  | { type: "error"; speaker: string; error: string; code?: LLMErrorCode; run: RunSummary }
+  | { type: "moderator_message"; message: RunMessage; run: RunSummary }
+  | { type: "transcript"; messages: RunMessage[]; run: RunSummary }
+  | { type: "turn_scored"; speaker: string; messageId: string; score: TurnScore }
+  | { type: "verdict"; verdict: Verdict; run: RunSummary }
+  | { type: "judge_error"; messageId?: string; error: string; code?: LLMErrorCode }
+  | { type: "summary"; summary: ConversationSummary }
+  | { type: "summary_error"; error: string; code?: LLMErrorCode };
+
+/**
+ * Error from a run route, with the server's error code when it sent one
+ */
+export class RunApiError extends Error {
+  code?: LLMErrorCode;
+
+  constructor(message: string, code?: LLMErrorCode) {
+    super(message);
+    this.name = "RunApiError";
+    this.code = code;
+  }
+}
+
+/**
+ * Sends a JSON request to the API and throws a RunApiError for error responses
+ */
+export async function apiRequest<T>(path: string, method = "GET", body?: unknown): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: getRequestHeaders(),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RunApiError(data.error || `HTTP error! status: ${response.status}`, data.code);
+  }
+  return data as T;
+}
+
+const request = <T>(path: string, method = "GET", body?: unknown) => apiRequest<T>(`/runs${path}`, method, body);
+
+export const createRun = (run: CreateRunRequest) => request<RunSnapshot>("", "POST", run);
+
+export const fetchRun = (id: string) => request<RunSnapshot>(`/${id}`);
+
+export const updateRun = (id: string, changes: UpdateRunRequest) =>
+  request<RunSnapshot>(`/${id}`, "PATCH", changes);
+
+export const startRun = (id: string) => request<RunSnapshot>(`/${id}/start`, "POST");
+
+export const pauseRun = (id: string) => request<RunSnapshot>(`/${id}/pause`, "POST");
+
+export const stopRun = (id: string) => request<RunSnapshot>(`/${id}/stop`, "POST");
+
+export const playTurn = (id: string, speaker: string) =>
+  request<RunSnapshot>(`/${id}/turns`, "POST", { speaker });
+
+export const addModeratorMessage = (id: string, content: string) =>
+  request<RunMessage>(`/${id}/messages`, "POST", { content });
+
+export const editMessage = (id: string, messageId: string, content: string) =>
+  request<RunMessage>(`/${id}/messages/${messageId}`, "PATCH", { content });
+
+/**
+ * Deletes the message and every message after it
+ */
+export const deleteMessagesFrom = (id: string, messageId: string) =>
+  request<RunSnapshot>(`/${id}/messages/${messageId}`, "DELETE");
+
+/**
+ * Plays a reply again; the new version arrives as turn events and the
+ * transcript is updated with a "transcript" event
+ */
+export const regenerateMessage = (id: string, messageId: string, overrides: RegenerateOverrides = {}) =>
+  request<RunSnapshot>(`/${id}/messages/${messageId}/regenerate`, "POST", overrides);
+
+export const selectVersion = (id: string, messageId: string, version: number) =>
+  request<RunSnapshot>(`/${id}/messages/${messageId}/version`, "POST", { version });
+
+/**
+ * Asks the run's judge for a verdict; it arrives as a "verdict" event
+ */
+export const requestVerdict = (id: string) => request<RunSnapshot>(`/${id}/verdict`, "POST");
+
+/**
+ * Forks a new branch with the transcript up to and including the message
+ */
+export const forkRun = (id: string, messageId: string) =>
+  request<RunSnapshot>(`/${id}/branches`, "POST", { messageId });
+
+/**
+ * Every branch of the run's conversation, oldest first
+ */
+export const fetchBranches = (id: string) =>
+  request<{ branches: RunSummary[] }>(`/${id}/branches`).then(data => data.branches);
+
+/**
+ * Listens to a run's events. EventSource reconnects on its own after a
+ * dropped connection, and the server starts every connection with a fresh
+ * snapshot. Returns a function that closes the stream.
+ */
+export function subscribeToRun(
+  id: string,
+  onEvent: (event: RunEvent) => void,
+  onConnectionError?: () => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/runs/${id}/events`);
+  source.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data) as RunEvent);
+    } catch (e) {
+      // Skip invalid JSON
+    }
+  };
+  source.onerror = () => onConnectionError?.();
+  return () => source.close();
+}